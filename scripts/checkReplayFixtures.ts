@@ -0,0 +1,74 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { getAlphabet } from '../src/utils/alphabets';
+import { RuleOnlyClassifier } from '../src/utils/fallbackRecognizer';
+import { DEFAULT_COMMAND_TOGGLES } from '../src/utils/commandGestures';
+import { DEFAULT_AUTO_COMMIT_OPTIONS } from '../src/utils/autoCommit';
+import { parseLandmarkRecording } from '../src/utils/landmarkRecording';
+import { replayRecording } from '../src/utils/landmarkReplay';
+
+// `npm test`: replays every recording in fixtures/replays through the frame pipeline and
+// checks it types its expectedText. Node has no inference worker, so a fixture is checked
+// with its alphabet's fallback rules when those are what it was recorded against (modelId
+// "<alphabet>-rules-only"); fixtures expecting a model's output are skipped here and checked
+// from the Replay Check panel. Settings a recording doesn't carry use the defaults
+
+const FIXTURE_DIR = 'fixtures/replays';
+
+const check = async (file: string): Promise<'pass' | 'fail' | 'skip'> => {
+  const recording = parseLandmarkRecording(readFileSync(join(FIXTURE_DIR, file), 'utf8'));
+  if (recording.expectedText === undefined) {
+    console.log(`⏭️ ${file}: no expected text`);
+    return 'skip';
+  }
+
+  const alphabet = getAlphabet(recording.alphabetId);
+  if (!alphabet.fallbackRules) {
+    console.log(`⏭️ ${file}: ${alphabet.name} has no rules to replay with`);
+    return 'skip';
+  }
+  const rules = new RuleOnlyClassifier(alphabet.id, alphabet.fallbackRules);
+  if (recording.modelId !== rules.modelId) {
+    console.log(`⏭️ ${file}: expects ${recording.modelId}, which only runs in the browser`);
+    return 'skip';
+  }
+
+  const result = await replayRecording(
+    recording,
+    {
+      alphabet,
+      mode: 'letters',
+      dominantHand: recording.dominantHand,
+      commands: DEFAULT_COMMAND_TOGGLES,
+      smoothing: recording.smoothing,
+      autoCommit: DEFAULT_AUTO_COMMIT_OPTIONS
+    },
+    async hands => rules.classify(hands)
+  );
+  if (result.text !== recording.expectedText) {
+    console.error(`❌ ${file}: typed ${JSON.stringify(result.text)}, expected ${JSON.stringify(recording.expectedText)}`);
+    return 'fail';
+  }
+  console.log(`✅ ${file}: ${JSON.stringify(result.text)} in ${result.frames} frames`);
+  return 'pass';
+};
+
+const main = async () => {
+  const files = readdirSync(FIXTURE_DIR).filter(file => file.endsWith('.json')).sort();
+  const outcomes: string[] = [];
+  for (const file of files) {
+    outcomes.push(await check(file).catch(error => {
+      console.error(`❌ ${file}: ${error instanceof Error ? error.message : error}`);
+      return 'fail' as const;
+    }));
+  }
+
+  const failed = outcomes.filter(outcome => outcome === 'fail').length;
+  const passed = outcomes.filter(outcome => outcome === 'pass').length;
+  console.log(`🧪 ${passed} passed, ${failed} failed, ${outcomes.length - passed - failed} skipped`);
+  if (failed > 0 || passed === 0) {
+    process.exitCode = 1;
+  }
+};
+
+main();
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Camera, Mic, MicOff, RotateCcw, Volume2, Hand, Zap } from 'lucide-react';
 import VideoFeed from './components/VideoFeed';
 import CharacterDisplay from './components/CharacterDisplay';
@@ -6,29 +6,56 @@ import SentenceBuilder from './components/SentenceBuilder';
 import WordSuggestions from './components/WordSuggestions';
 import ControlPanel from './components/ControlPanel';
 import HandVisualization from './components/HandVisualization';
+import SettingsPanel from './components/SettingsPanel';
+import TranscriptionPanel from './components/TranscriptionPanel';
+import DatasetCapturePanel from './components/DatasetCapturePanel';
+import PersonalizationPanel from './components/PersonalizationPanel';
+import EvaluatorPanel from './components/EvaluatorPanel';
+import ReplayCheckPanel from './components/ReplayCheckPanel';
 import { wordSuggestionEngine } from './utils/wordSuggestions';
+import { LetterCandidate } from './utils/ruleEngine';
+import { DetectedHand } from './utils/handLandmarks';
+import { AppSettings, loadSettings, saveSettings } from './utils/settings';
+import { useAutoCommit } from './hooks/useAutoCommit';
+import { GestureCommand } from './utils/commandGestures';
+import { RecognitionMode } from './utils/digitRecognizer';
+import { getAlphabet, resolveModel } from './utils/alphabets';
+import { CalibrationWeights } from './utils/calibration';
 
 function App() {
   const [currentCharacter, setCurrentCharacter] = useState<string>('');
   const [sentence, setSentence] = useState<string>('');
-  const [suggestions, setSuggestions] = useState<string[]>([]);
+  // Sentence right after a suggestion was picked; its word needs no further suggestions
+  const [completedSentence, setCompletedSentence] = useState<string | null>(null);
   const [isRecording, setIsRecording] = useState<boolean>(false);
   const [isSpeaking, setIsSpeaking] = useState<boolean>(false);
-  const [handLandmarks, setHandLandmarks] = useState<any[]>([]);
+  const [hands, setHands] = useState<DetectedHand[]>([]);
   const [confidence, setConfidence] = useState<number>(0);
-  const [characterHistory, setCharacterHistory] = useState<string[]>([]);
+  const [alternatives, setAlternatives] = useState<LetterCandidate[]>([]);
   const [lastAddedTime, setLastAddedTime] = useState<number>(0);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [mode, setMode] = useState<RecognitionMode>('letters');
+  // The signer's personalization head for the selected model, loaded by PersonalizationPanel
+  const [calibration, setCalibration] = useState<CalibrationWeights | null>(null);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
 
   // Handle real hand detection results
-  const handleHandDetection = (character: string, conf: number, landmarks: any[]) => {
+  const handleHandDetection = (character: string, conf: number, detectedHands: DetectedHand[], candidates: LetterCandidate[]) => {
     setCurrentCharacter(character);
     setConfidence(conf);
-    setHandLandmarks(landmarks);
-    
-    // Update character history for stability
-    setCharacterHistory(prev => {
-      const newHistory = [...prev, character].slice(-5); // Keep last 5 characters
-      return newHistory;
+    setAlternatives(candidates);
+    setHands(detectedHands);
+  };
+
+  const applyCharacter = (char: string) => {
+    // Functional update: an auto-commit and a command gesture can land before the next render
+    setSentence(prev => {
+      if (char === 'next') return prev + ' ';
+      if (char === 'Backspace') return prev.slice(0, -1);
+      return prev + char;
     });
   };
 
@@ -37,41 +64,39 @@ function App() {
     // Prevent rapid additions (debounce) and ensure valid character
     if (now - lastAddedTime < 800 || !char || char.trim() === '') return;
     
-    // Handle special characters
-    if (char === 'next') {
-      setSentence(prev => prev + ' ');
-    } else if (char === 'Backspace') {
-      setSentence(prev => prev.slice(0, -1));
-    } else {
-      setSentence(prev => prev + char);
-    }
-    
+    applyCharacter(char);
     setLastAddedTime(now);
-    updateSuggestions(sentence + (char === 'next' ? ' ' : char === 'Backspace' ? '' : char));
   };
 
-  const updateSuggestions = (text: string) => {
-    const words = text.trim().split(' ');
+  // Hands-free mode: letters held steadily are typed automatically
+  const autoCommitState = useAutoCommit(
+    currentCharacter,
+    confidence,
+    settings.autoCommit.enabled && isRecording,
+    settings.autoCommit,
+    applyCharacter
+  );
+
+  // Suggestions follow the sentence's last word
+  const suggestions = useMemo(() => {
+    if (sentence === completedSentence) return [];
+    const words = sentence.trim().split(' ');
     const currentWord = words[words.length - 1];
-    
-    if (currentWord && currentWord.length > 0) {
-      // Use the enhanced word suggestion engine
-      const suggestions = wordSuggestionEngine.getSuggestions(currentWord, 4);
-      setSuggestions(suggestions);
-    } else {
-      setSuggestions([]);
-    }
-  };
+    // Use the enhanced word suggestion engine
+    return currentWord ? wordSuggestionEngine.getSuggestions(currentWord, 4) : [];
+  }, [sentence, completedSentence]);
 
   const handleSuggestionClick = (suggestion: string) => {
     const words = sentence.trim().split(' ');
+    let nextSentence: string;
     if (words.length > 0) {
       words[words.length - 1] = suggestion;
-      setSentence(words.join(' ') + ' ');
+      nextSentence = words.join(' ') + ' ';
     } else {
-      setSentence(suggestion + ' ');
+      nextSentence = suggestion + ' ';
     }
-    setSuggestions([]);
+    setSentence(nextSentence);
+    setCompletedSentence(nextSentence);
     
     // Record the selection to improve future suggestions
     wordSuggestionEngine.recordSelection(suggestion);
@@ -89,11 +114,52 @@ function App() {
 
   const handleClear = () => {
     setSentence('');
-    setSuggestions([]);
     setCurrentCharacter('');
     setConfidence(0);
+    setAlternatives([]);
   };
 
+  const handleCommand = (command: GestureCommand) => {
+    switch (command) {
+      case 'space':
+        applyCharacter('next');
+        break;
+      case 'backspace':
+        applyCharacter('Backspace');
+        break;
+      case 'speak':
+        handleSpeak();
+        break;
+      case 'clear':
+        handleClear();
+        break;
+      case 'toggleMode':
+        toggleMode();
+        break;
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(prev => prev === 'letters' ? 'digits' : 'letters');
+  };
+
+  const detectionOptions = useMemo(
+    () => {
+      const alphabet = getAlphabet(settings.alphabet);
+      return {
+        alphabet,
+        model: resolveModel(alphabet, settings.model),
+        mode,
+        dominantHand: settings.dominantHand,
+        commands: settings.commands,
+        smoothing: settings.smoothing.enabled ? settings.smoothing : null,
+        backend: settings.backend,
+        calibration
+      };
+    },
+    [settings.alphabet, settings.model, mode, settings.dominantHand, settings.commands, settings.smoothing, settings.backend, calibration]
+  );
+
   const toggleRecording = () => {
     setIsRecording(!isRecording);
   };
@@ -145,12 +211,35 @@ function App() {
               isRecording={isRecording}
               onToggleRecording={toggleRecording}
               onHandDetection={handleHandDetection}
+              onCommand={handleCommand}
+              detectionOptions={detectionOptions}
+              showDiagnostics={settings.diagnostics}
             />
             
             <HandVisualization 
-              landmarks={handLandmarks}
+              hands={hands}
               isActive={isRecording}
             />
+            
+            <TranscriptionPanel detectionOptions={detectionOptions} />
+
+            <DatasetCapturePanel
+              hands={hands}
+              isActive={isRecording}
+              alphabet={detectionOptions.alphabet}
+              settings={settings.dataset}
+              onChange={dataset => setSettings(current => ({ ...current, dataset }))}
+            />
+
+            <PersonalizationPanel
+              detectionOptions={detectionOptions}
+              user={settings.dataset.signer}
+              onChange={setCalibration}
+            />
+
+            <EvaluatorPanel detectionOptions={detectionOptions} />
+
+            <ReplayCheckPanel detectionOptions={detectionOptions} autoCommit={settings.autoCommit} />
           </div>
 
           {/* Right Panel - Recognition Results */}
@@ -158,12 +247,17 @@ function App() {
             <CharacterDisplay 
               character={currentCharacter}
               confidence={confidence}
+              alternatives={alternatives}
+              autoCommit={settings.autoCommit.enabled ? autoCommitState : null}
+              mode={mode}
+              onToggleMode={toggleMode}
               isActive={isRecording}
               onAddCharacter={handleAddCharacter}
             />
             
             <SentenceBuilder 
               sentence={sentence}
+              mode={mode}
               onChange={setSentence}
             />
             
@@ -178,6 +272,11 @@ function App() {
               isSpeaking={isSpeaking}
               hasText={sentence.trim().length > 0}
             />
+            
+            <SettingsPanel 
+              settings={settings}
+              onChange={setSettings}
+            />
           </div>
         </div>
       </main>
@@ -1,9 +1,20 @@
 import React from 'react';
-import { Plus, Target } from 'lucide-react';
+import { Hash, Plus, Target, Type } from 'lucide-react';
+import { LetterCandidate } from '../utils/ruleEngine';
+import { AutoCommitState } from '../utils/autoCommit';
+import { RecognitionMode } from '../utils/digitRecognizer';
+
+const RING_RADIUS = 44;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
 
 interface CharacterDisplayProps {
   character: string;
   confidence: number;
+  alternatives: LetterCandidate[];
+  // Hands-free typing state, null when auto-commit is off
+  autoCommit: AutoCommitState | null;
+  mode: RecognitionMode;
+  onToggleMode: () => void;
   isActive: boolean;
   onAddCharacter: (char: string) => void;
 }
@@ -11,6 +22,10 @@ interface CharacterDisplayProps {
 const CharacterDisplay: React.FC<CharacterDisplayProps> = ({
   character,
   confidence,
+  alternatives,
+  autoCommit,
+  mode,
+  onToggleMode,
   isActive,
   onAddCharacter
 }) => {
@@ -38,18 +53,63 @@ const CharacterDisplay: React.FC<CharacterDisplayProps> = ({
             <p className="text-sm text-gray-600">Current prediction</p>
           </div>
         </div>
+
+        <button
+          onClick={onToggleMode}
+          className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium transition-colors duration-200 ${
+            mode === 'digits'
+              ? 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+              : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+          }`}
+          title="Switch between letters and numbers"
+        >
+          {mode === 'digits' ? <Hash className="w-4 h-4" /> : <Type className="w-4 h-4" />}
+          <span>{mode === 'digits' ? 'Numbers' : 'Letters'}</span>
+        </button>
       </div>
 
       {isActive && character ? (
         <div className="text-center space-y-4">
           <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-2xl p-8 border border-blue-100">
-            <div className="text-6xl font-bold text-blue-600 mb-2">
-              {character}
-            </div>
+            {mode === 'digits' && (
+              <p className="text-xs font-medium text-amber-600 mb-2">Numbers mode — 2, 6 and 9 read as digits, not V, W or F</p>
+            )}
+            {autoCommit ? (
+              <div className="relative w-28 h-28 mx-auto mb-2">
+                <svg className="absolute inset-0 w-full h-full -rotate-90" viewBox="0 0 100 100">
+                  <circle cx="50" cy="50" r={RING_RADIUS} fill="none" stroke="#DBEAFE" strokeWidth="6" />
+                  <circle
+                    cx="50"
+                    cy="50"
+                    r={RING_RADIUS}
+                    fill="none"
+                    stroke={autoCommit.phase === 'awaitingRelease' ? '#22C55E' : '#3B82F6'}
+                    strokeWidth="6"
+                    strokeLinecap="round"
+                    strokeDasharray={RING_CIRCUMFERENCE}
+                    strokeDashoffset={RING_CIRCUMFERENCE * (1 - autoCommit.progress)}
+                  />
+                </svg>
+                <div className="absolute inset-0 flex items-center justify-center text-6xl font-bold text-blue-600">
+                  {character}
+                </div>
+              </div>
+            ) : (
+              <div className="text-6xl font-bold text-blue-600 mb-2">
+                {character}
+              </div>
+            )}
             <div className={`inline-flex items-center space-x-2 px-3 py-1 rounded-full text-sm font-medium ${getConfidenceColor(confidence)}`}>
               <div className="w-2 h-2 rounded-full bg-current"></div>
               <span>{getConfidenceText(confidence)}</span>
             </div>
+            {autoCommit && (
+              <p className="mt-3 text-xs text-gray-500">
+                {autoCommit.phase === 'awaitingRelease'
+                  ? 'Typed — relax your hand to repeat this letter'
+                  : 'Hold steady to type automatically'}
+              </p>
+            )}
           </div>
           
           <div className="space-y-2">
@@ -65,6 +125,23 @@ const CharacterDisplay: React.FC<CharacterDisplayProps> = ({
             </div>
           </div>
 
+          {alternatives.length > 0 && (
+            <div className="flex items-center justify-center flex-wrap gap-2">
+              <span className="text-xs text-gray-500">Alternatives</span>
+              {alternatives.map(candidate => (
+                <button
+                  key={candidate.letter}
+                  onClick={() => onAddCharacter(candidate.letter)}
+                  className="px-3 py-1 rounded-full bg-gray-100 text-gray-700 text-sm font-medium hover:bg-blue-50 hover:text-blue-700 transition-colors duration-200"
+                  title="Add this letter instead"
+                >
+                  {candidate.letter}
+                  <span className="ml-1 text-xs text-gray-400">{(candidate.score * 100).toFixed(0)}%</span>
+                </button>
+              ))}
+            </div>
+          )}
+
           <button
             onClick={() => onAddCharacter(character)}
             disabled={confidence < 0.3}
@@ -0,0 +1,363 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Database, Camera, X, Trash2, Download, RefreshCw, Loader } from 'lucide-react';
+import { DetectedHand } from '../utils/handLandmarks';
+import { AlphabetPack } from '../utils/alphabets';
+import { DatasetSettings } from '../utils/settings';
+import { CaptureSession, CaptureState, renderModelInput } from '../utils/datasetCapture';
+import { DatasetSample, DatasetStore, datasetToJson, datasetToZip } from '../utils/datasetStore';
+import { downloadBlob, downloadText } from '../utils/download';
+
+interface DatasetCapturePanelProps {
+  // Smoothed hands from the live recognizer, signing hand first
+  hands: DetectedHand[];
+  isActive: boolean;
+  alphabet: AlphabetPack;
+  settings: DatasetSettings;
+  onChange: (settings: DatasetSettings) => void;
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+// Thumbnails shown at once; the rest are still exported
+const MAX_SHOWN = 60;
+
+const IDLE_STATE: CaptureState = { phase: 'idle', captured: 0, total: 0, countdownMs: 0 };
+
+const store = new DatasetStore();
+
+const SampleThumbnail: React.FC<{ sample: DatasetSample }> = ({ sample }) => {
+  const [url, setUrl] = useState<string>('');
+
+  useEffect(() => {
+    if (!sample.image) return;
+    const objectUrl = URL.createObjectURL(sample.image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [sample.image]);
+
+  return url ? (
+    <img src={url} alt={`Sample of ${sample.letter}`} className="w-full aspect-square object-cover rounded-lg bg-black" />
+  ) : (
+    <div className="w-full aspect-square rounded-lg bg-gray-100 flex items-center justify-center text-lg font-bold text-gray-400">
+      {sample.letter}
+    </div>
+  );
+};
+
+const DatasetCapturePanel: React.FC<DatasetCapturePanelProps> = ({ hands, isActive, alphabet, settings, onChange }) => {
+  const sessionRef = useRef<CaptureSession | null>(null);
+  // Samples of the running capture; only stored once the run completes
+  const pendingRef = useRef<DatasetSample[]>([]);
+  const [letter, setLetter] = useState<string>('A');
+  const [sessionId, setSessionId] = useState<string>(() => crypto.randomUUID());
+  const [captureState, setCaptureState] = useState<CaptureState>(IDLE_STATE);
+  const [samples, setSamples] = useState<DatasetSample[]>([]);
+  const [filter, setFilter] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const reload = useCallback(async () => {
+    try {
+      setSamples(await store.list());
+    } catch (err) {
+      console.error('❌ Could not read the dataset:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const saveCapture = useCallback(async (captured: DatasetSample[]) => {
+    setIsSaving(true);
+    try {
+      const withImages = settings.saveImages
+        ? await Promise.all(captured.map(async sample => ({ ...sample, image: await renderModelInput(alphabet, sample.hands) })))
+        : captured;
+      await store.add(withImages);
+      console.log(`💾 Saved ${withImages.length} samples of ${captured[0]?.letter}`);
+      await reload();
+    } catch (err) {
+      console.error('❌ Could not save samples:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [settings.saveImages, alphabet, reload]);
+
+  // Feed every detection frame to the running capture
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    const now = Date.now();
+    if (session.update(hands, now)) {
+      pendingRef.current.push({
+        id: crypto.randomUUID(),
+        letter,
+        alphabetId: alphabet.id,
+        hands: hands.map(hand => ({ ...hand, landmarks: hand.landmarks.map(point => ({ ...point })) })),
+        capturedAt: new Date(now).toISOString(),
+        signer: settings.signer,
+        sessionId
+      });
+    }
+
+    const state = session.getState(now);
+    setCaptureState(state);
+    if (state.phase === 'done') {
+      sessionRef.current = null;
+      saveCapture(pendingRef.current);
+      pendingRef.current = [];
+    }
+  }, [hands, letter, alphabet.id, settings.signer, sessionId, saveCapture]);
+
+  // Keep the countdown moving even when no frames arrive
+  useEffect(() => {
+    if (captureState.phase !== 'countdown') return;
+    const timer = setInterval(() => {
+      if (sessionRef.current) setCaptureState(sessionRef.current.getState(Date.now()));
+    }, 100);
+    return () => clearInterval(timer);
+  }, [captureState.phase]);
+
+  const cancel = () => {
+    sessionRef.current = null;
+    pendingRef.current = [];
+    setCaptureState(IDLE_STATE);
+  };
+
+  // Stopping the camera abandons the run
+  useEffect(() => {
+    if (!isActive) cancel();
+  }, [isActive]);
+
+  const start = () => {
+    const session = new CaptureSession({ sampleCount: settings.sampleCount });
+    const now = Date.now();
+    session.start(now);
+    sessionRef.current = session;
+    pendingRef.current = [];
+    setError('');
+    setCaptureState(session.getState(now));
+  };
+
+  const remove = async (ids: string[]) => {
+    try {
+      await store.delete(ids);
+      await reload();
+    } catch (err) {
+      console.error('❌ Could not delete samples:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const exportZip = async () => {
+    try {
+      downloadBlob('signspeak-dataset.zip', await datasetToZip(samples));
+    } catch (err) {
+      console.error('❌ Could not export the dataset:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const counts = samples.reduce<Record<string, number>>((acc, sample) => {
+    acc[sample.letter] = (acc[sample.letter] ?? 0) + 1;
+    return acc;
+  }, {});
+  const shown = samples.filter(sample => !filter || sample.letter === filter).reverse();
+  const isCapturing = captureState.phase === 'countdown' || captureState.phase === 'capturing';
+  const percent = captureState.total > 0 ? (captureState.captured / captureState.total) * 100 : 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-teal-100 rounded-lg">
+            <Database className="w-6 h-6 text-teal-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Dataset Capture</h3>
+            <p className="text-sm text-gray-600">{samples.length} samples saved in this browser</p>
+          </div>
+        </div>
+
+        {isCapturing ? (
+          <button
+            onClick={cancel}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg font-medium bg-red-100 text-red-700 hover:bg-red-200 transition-all duration-200"
+          >
+            <X className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+        ) : (
+          <button
+            onClick={start}
+            disabled={!isActive || isSaving}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg font-medium bg-teal-100 text-teal-700 hover:bg-teal-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            <Camera className="w-4 h-4" />
+            <span>Capture {letter}</span>
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-9 gap-1">
+          {LETTERS.map(option => (
+            <button
+              key={option}
+              onClick={() => setLetter(option)}
+              disabled={isCapturing}
+              className={`py-1 rounded text-sm font-medium transition-colors ${
+                option === letter ? 'bg-teal-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <label className="space-y-1">
+            <span className="text-gray-600">Signer</span>
+            <input
+              type="text"
+              value={settings.signer}
+              onChange={(e) => onChange({ ...settings, signer: e.target.value })}
+              placeholder="Name or id"
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-600">Samples per capture</span>
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={settings.sampleCount}
+              onChange={(e) => onChange({ ...settings, sampleCount: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg"
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={settings.saveImages}
+              onChange={(e) => onChange({ ...settings, saveImages: e.target.checked })}
+            />
+            <span>Save model-input images</span>
+          </label>
+          <button
+            onClick={() => setSessionId(crypto.randomUUID())}
+            disabled={isCapturing}
+            title={`Session ${sessionId}`}
+            className="flex items-center space-x-1 text-gray-600 hover:text-gray-900"
+          >
+            <RefreshCw className="w-3 h-3" />
+            <span>New session ({sessionId.slice(0, 8)})</span>
+          </button>
+        </div>
+
+        {captureState.phase === 'countdown' && (
+          <p className="text-center text-sm text-gray-700">
+            Hold {letter} — capturing in {Math.ceil(captureState.countdownMs / 1000)}s
+          </p>
+        )}
+
+        {captureState.phase === 'capturing' && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>Capturing {letter}{hands.length === 0 ? ' · no hand in view' : ''}</span>
+              <span>{captureState.captured} / {captureState.total}</span>
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div className="h-full bg-teal-500 transition-all duration-100" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+
+        {isSaving && (
+          <p className="flex items-center space-x-2 text-sm text-gray-600">
+            <Loader className="w-4 h-4 animate-spin" />
+            <span>Saving samples...</span>
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-600">Dataset error: {error}</p>}
+
+        {samples.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-1">
+              <button
+                onClick={() => setFilter(null)}
+                className={`px-2 py-1 rounded text-xs font-medium ${filter === null ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700'}`}
+              >
+                All {samples.length}
+              </button>
+              {Object.keys(counts).sort().map(key => (
+                <button
+                  key={key}
+                  onClick={() => setFilter(key)}
+                  className={`px-2 py-1 rounded text-xs font-medium ${filter === key ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700'}`}
+                >
+                  {key} {counts[key]}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-6 gap-2">
+              {shown.slice(0, MAX_SHOWN).map(sample => (
+                <div key={sample.id} className="relative group" title={`${sample.signer || 'Unknown signer'} · ${sample.capturedAt}`}>
+                  <SampleThumbnail sample={sample} />
+                  <button
+                    onClick={() => remove([sample.id])}
+                    className="absolute top-1 right-1 p-1 rounded bg-white/80 text-red-600 opacity-0 group-hover:opacity-100"
+                    title="Delete sample"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {shown.length > MAX_SHOWN && (
+              <p className="text-xs text-gray-500">Showing the newest {MAX_SHOWN} of {shown.length}</p>
+            )}
+
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete ${shown.length} samples?`)) remove(shown.map(sample => sample.id));
+                }}
+                className="flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium bg-red-50 text-red-700 hover:bg-red-100"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Delete {filter ?? 'all'}</span>
+              </button>
+              <button
+                onClick={() => downloadText('signspeak-dataset.json', JSON.stringify(datasetToJson(samples), null, 2), 'application/json')}
+                className="flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                <Download className="w-4 h-4" />
+                <span>JSON</span>
+              </button>
+              <button
+                onClick={exportZip}
+                className="flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                <Download className="w-4 h-4" />
+                <span>ZIP</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DatasetCapturePanel;
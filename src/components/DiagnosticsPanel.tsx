@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, Download, RotateCcw } from 'lucide-react';
+import { LatencyStats, PipelineTelemetry, TelemetrySnapshot } from '../utils/telemetry';
+import { downloadText } from '../utils/download';
+
+interface DiagnosticsPanelProps {
+  telemetry: PipelineTelemetry;
+}
+
+// How often the panel reads the telemetry
+const REFRESH_MS = 500;
+
+const formatMs = (value: number) => `${value.toFixed(value < 10 ? 1 : 0)} ms`;
+
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const LatencyRow: React.FC<{ label: string; stats: LatencyStats }> = ({ label, stats }) => (
+  <tr className="border-t border-gray-100">
+    <td className="py-1 pr-2 text-gray-600">{label}</td>
+    <td className="py-1 text-right font-mono">{stats.count > 0 ? formatMs(stats.p50) : '–'}</td>
+    <td className="py-1 text-right font-mono">{stats.count > 0 ? formatMs(stats.p95) : '–'}</td>
+    <td className="py-1 text-right font-mono">{stats.count > 0 ? formatMs(stats.p99) : '–'}</td>
+  </tr>
+);
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ telemetry }) => {
+  const [snapshot, setSnapshot] = useState<TelemetrySnapshot>(() => telemetry.snapshot());
+
+  useEffect(() => {
+    const interval = setInterval(() => setSnapshot(telemetry.snapshot()), REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [telemetry]);
+
+  const exportSession = () => {
+    const session = telemetry.exportSession();
+    downloadText(
+      `signspeak-telemetry-${session.exportedAt.replace(/[:.]/g, '-')}.json`,
+      JSON.stringify(session, null, 2),
+      'application/json'
+    );
+  };
+
+  const resetSession = () => {
+    telemetry.reset();
+    setSnapshot(telemetry.snapshot());
+  };
+
+  const droppedShare = snapshot.totalFrames > 0 ? (snapshot.droppedFrames / snapshot.totalFrames) * 100 : 0;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+          <Activity className="w-4 h-4 text-gray-500" />
+          <span>Diagnostics</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={resetSession}
+            className="flex items-center space-x-1 px-2 py-1 rounded-lg text-xs text-gray-600 hover:bg-gray-100"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Reset</span>
+          </button>
+          <button
+            onClick={exportSession}
+            className="flex items-center space-x-1 px-2 py-1 rounded-lg text-xs bg-blue-100 text-blue-700 hover:bg-blue-200"
+          >
+            <Download className="w-3 h-3" />
+            <span>Export JSON</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3 text-xs">
+        <div className="bg-gray-50 rounded-lg p-2">
+          <p className="text-gray-500">Camera</p>
+          <p className="font-mono text-gray-900">{snapshot.cameraFps.toFixed(1)} fps</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-2">
+          <p className="text-gray-500">Dropped frames</p>
+          <p className="font-mono text-gray-900">
+            {snapshot.droppedFrames} ({droppedShare.toFixed(0)}%)
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-2">
+          <p className="text-gray-500">Backend</p>
+          <p className="font-mono text-gray-900">{snapshot.runtime?.backend ?? '–'}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-2">
+          <p className="text-gray-500">Tensors</p>
+          <p className="font-mono text-gray-900">
+            {snapshot.runtime ? `${snapshot.runtime.numTensors} · ${formatBytes(snapshot.runtime.numBytes)}` : '–'}
+          </p>
+        </div>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal pb-1">Stage ({snapshot.predictions} predictions)</th>
+            <th className="text-right font-normal pb-1">p50</th>
+            <th className="text-right font-normal pb-1">p95</th>
+            <th className="text-right font-normal pb-1">p99</th>
+          </tr>
+        </thead>
+        <tbody>
+          <LatencyRow label="MediaPipe" stats={snapshot.mediaPipeMs} />
+          <LatencyRow label="Rasterize / encode" stats={snapshot.preprocessMs} />
+          <LatencyRow label="Model" stats={snapshot.inferenceMs} />
+          <LatencyRow label="Round trip" stats={snapshot.roundTripMs} />
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
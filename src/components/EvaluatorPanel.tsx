@@ -0,0 +1,483 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ClipboardCheck, Database, Upload, X, Download, Pin, Loader, GitCompare } from 'lucide-react';
+import { HandDetectionOptions } from '../hooks/useHandDetection';
+import { ClassifierComparison, FrameClassifier, compareClassifiers, createSignClassifier } from '../utils/classifiers';
+import { modelsForAlphabet } from '../utils/alphabets';
+import { getModelManifest } from '../utils/modelRegistry';
+import { DatasetStore, parseDatasetExport } from '../utils/datasetStore';
+import {
+  EvaluationProgress,
+  EvaluationReport,
+  EvaluationSample,
+  MetricChange,
+  diffReports,
+  evaluateClassifier,
+  loadBaseline,
+  parseEvaluationReport,
+  saveBaseline
+} from '../utils/evaluation';
+import { openRuleClassifier, openWorkerClassifier } from '../utils/videoTranscriber';
+import { downloadText } from '../utils/download';
+
+interface EvaluatorPanelProps {
+  // The live detection settings; the evaluation runs the same alphabet, model and personalization
+  detectionOptions: HandDetectionOptions;
+}
+
+type MatrixView = 'groups' | 'letters';
+
+const datasetStore = new DatasetStore();
+
+const formatPercent = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(0)}%`);
+
+const formatChange = ({ baseline, current }: MetricChange) => {
+  if (baseline === null || current === null) return `${formatPercent(baseline)} → ${formatPercent(current)}`;
+  const delta = (current - baseline) * 100;
+  return `${formatPercent(baseline)} → ${formatPercent(current)} (${delta >= 0 ? '+' : ''}${delta.toFixed(1)})`;
+};
+
+const changeColor = ({ baseline, current }: MetricChange) => {
+  if (baseline === null || current === null || baseline === current) return 'text-gray-700';
+  return current > baseline ? 'text-green-700' : 'text-red-700';
+};
+
+// Rows are expected labels, columns predicted; the last column is "nothing recognized"
+const ConfusionMatrix: React.FC<{ labels: string[]; matrix: number[][] }> = ({ labels, matrix }) => (
+  <div className="overflow-x-auto">
+    <table className="text-[10px] font-mono border-collapse">
+      <thead>
+        <tr>
+          <th className="px-1 text-gray-400">↓ / →</th>
+          {[...labels, '∅'].map(label => (
+            <th key={label} className="px-1 text-gray-600">{label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {matrix.map((row, rowIndex) => {
+          const total = row.reduce((sum, count) => sum + count, 0);
+          return (
+            <tr key={labels[rowIndex]}>
+              <th className="px-1 text-left text-gray-600">{labels[rowIndex]}</th>
+              {row.map((count, column) => {
+                const share = total > 0 ? count / total : 0;
+                const color = column === rowIndex ? '22, 163, 74' : '220, 38, 38';
+                return (
+                  <td
+                    key={column}
+                    className="w-6 h-6 text-center border border-gray-100"
+                    style={{ backgroundColor: count > 0 ? `rgba(${color}, ${0.15 + share * 0.75})` : undefined }}
+                  >
+                    {count > 0 ? count : ''}
+                  </td>
+                );
+              })}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
+
+const EvaluatorPanel: React.FC<EvaluatorPanelProps> = ({ detectionOptions }) => {
+  const datasetInputRef = useRef<HTMLInputElement>(null);
+  const baselineInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<EvaluationProgress | null>(null);
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [comparison, setComparison] = useState<ClassifierComparison | null>(null);
+  const [baseline, setBaseline] = useState<EvaluationReport | null>(loadBaseline);
+  const [matrixView, setMatrixView] = useState<MatrixView>('letters');
+  const [error, setError] = useState<string>('');
+
+  const isRunning = progress !== null;
+  const diff = useMemo(() => (report && baseline ? diffReports(baseline, report) : null), [report, baseline]);
+
+  // Stop a running evaluation when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = async (loadSamples: () => Promise<EvaluationSample[]>) => {
+    const { alphabet, model, calibration } = detectionOptions;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError('');
+    setProgress({ done: 0, total: 0 });
+
+    const classifier = createSignClassifier(alphabet, model);
+    try {
+      const samples = await loadSamples();
+      if (samples.length === 0) {
+        throw new Error(`No ${alphabet.name} samples to evaluate`);
+      }
+
+      await classifier.loadModel();
+      const personalization = calibration?.modelId === model.id ? calibration : null;
+      classifier.setCalibration(personalization);
+
+      console.log(`🧪 Evaluating ${model.name} on ${samples.length} samples...`);
+      const result = await evaluateClassifier(
+        classifier,
+        alphabet,
+        model,
+        samples,
+        personalization?.user ?? null,
+        setProgress,
+        controller.signal
+      );
+      console.log(`✅ Evaluation done: ${formatPercent(result.accuracy)} of ${result.samples} samples`);
+      setReport(result);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('❌ Evaluation failed:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    } finally {
+      classifier.dispose();
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  // Every shipped model of the alphabet plus its landmark rules alone, stock weights, on the
+  // captured samples: which one to pick, and what it costs per prediction
+  const compare = async () => {
+    const { alphabet, backend } = detectionOptions;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError('');
+    setProgress({ done: 0, total: 0 });
+
+    const classifiers: FrameClassifier[] = [];
+    try {
+      const samples = await capturedSamples();
+      if (samples.length === 0) {
+        throw new Error(`No ${alphabet.name} samples to compare on`);
+      }
+
+      // Each model in its own worker on the backend live detection uses, so the timings are
+      // the ones the app would see
+      for (const manifest of modelsForAlphabet(alphabet).filter(manifest => manifest.available)) {
+        classifiers.push(await openWorkerClassifier(alphabet, manifest, backend));
+      }
+      const rules = openRuleClassifier(alphabet);
+      if (rules) classifiers.push(rules);
+
+      console.log(`🧪 Comparing ${classifiers.length} classifiers on ${samples.length} samples...`);
+      setComparison(await compareClassifiers(classifiers, samples, setProgress, controller.signal));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('❌ Comparison failed:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    } finally {
+      classifiers.forEach(classifier => classifier.dispose());
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const capturedSamples = async (): Promise<EvaluationSample[]> =>
+    (await datasetStore.list())
+      .filter(sample => sample.alphabetId === detectionOptions.alphabet.id)
+      .map(sample => ({ id: sample.id, hands: sample.hands, label: sample.letter }));
+
+  const fileSamples = (file: File) => async (): Promise<EvaluationSample[]> =>
+    parseDatasetExport(await file.text()).samples
+      .filter(sample => sample.alphabetId === detectionOptions.alphabet.id)
+      .map(sample => ({ id: sample.id, hands: sample.hands, label: sample.letter }));
+
+  const loadBaselineFile = async (file: File) => {
+    try {
+      const loaded = parseEvaluationReport(await file.text());
+      saveBaseline(loaded);
+      setBaseline(loaded);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const pinBaseline = () => {
+    if (!report) return;
+    saveBaseline(report);
+    setBaseline(report);
+  };
+
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+  const baselineLetters = new Map(baseline?.perLetter.map(metrics => [metrics.letter, metrics]));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-100 rounded-lg">
+            <ClipboardCheck className="w-6 h-6 text-indigo-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Evaluator</h3>
+            <p className="text-sm text-gray-600">
+              {detectionOptions.model.name}
+              {baseline ? ` · baseline from ${new Date(baseline.createdAt).toLocaleString()}` : ' · no baseline'}
+            </p>
+          </div>
+        </div>
+
+        {isRunning ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg font-medium bg-red-100 text-red-700 hover:bg-red-200 transition-all duration-200"
+          >
+            <X className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+        ) : (
+          <div className="flex space-x-2">
+            <button
+              onClick={() => run(capturedSamples)}
+              className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition-all duration-200"
+            >
+              <Database className="w-4 h-4" />
+              <span>Captured</span>
+            </button>
+            <button
+              onClick={() => datasetInputRef.current?.click()}
+              className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition-all duration-200"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Dataset file</span>
+            </button>
+          </div>
+        )}
+        <input
+          ref={datasetInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) run(fileSamples(file));
+          }}
+        />
+        <input
+          ref={baselineInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) loadBaselineFile(file);
+          }}
+        />
+      </div>
+
+      {progress && (
+        <div className="space-y-2 mb-4">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span className="flex items-center space-x-1">
+              <Loader className="w-3 h-3 animate-spin" />
+              <span>{progress.total > 0 ? 'Evaluating samples' : 'Loading samples and model'}</span>
+            </span>
+            <span>{progress.done} / {progress.total}</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all duration-200" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-4">Evaluation failed: {error}</p>}
+
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        <button
+          onClick={() => report && downloadText(
+            `evaluation-${report.modelId}.json`,
+            JSON.stringify(report, null, 2),
+            'application/json'
+          )}
+          disabled={!report}
+          className="flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          <span>Report</span>
+        </button>
+        <button
+          onClick={pinBaseline}
+          disabled={!report}
+          className="flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+        >
+          <Pin className="w-4 h-4" />
+          <span>Set as baseline</span>
+        </button>
+        <button
+          onClick={() => baselineInputRef.current?.click()}
+          className="flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Load baseline</span>
+        </button>
+      </div>
+
+      <button
+        onClick={compare}
+        disabled={isRunning}
+        className="w-full flex items-center justify-center space-x-2 py-2 mb-4 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+      >
+        <GitCompare className="w-4 h-4" />
+        <span>Compare models on captured samples</span>
+      </button>
+
+      {comparison && (
+        <div className="p-3 mb-4 bg-gray-50 rounded-xl">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th>Classifier</th>
+                <th>Accuracy</th>
+                <th>Mean</th>
+                <th>p95</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.reports.map(classifierReport => (
+                <tr key={classifierReport.modelId} className="border-t border-gray-100">
+                  <td>{getModelManifest(classifierReport.modelId)?.name ?? 'Landmark rules only'}</td>
+                  <td>{formatPercent(classifierReport.accuracy)}</td>
+                  <td>{classifierReport.meanLatencyMs.toFixed(1)} ms</td>
+                  <td>{classifierReport.p95LatencyMs.toFixed(1)} ms</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            {comparison.reports[0]?.samples ?? 0} samples · all agree on {formatPercent(comparison.agreement)} · stock weights
+          </p>
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            {([
+              ['Letter accuracy', report.accuracy, diff?.accuracy],
+              ['Model group', report.modelGroupAccuracy, diff?.modelGroupAccuracy],
+              ['Group after rules', report.groupAccuracy, diff?.groupAccuracy]
+            ] as const).map(([label, value, change]) => (
+              <div key={label} className="p-3 bg-gray-50 rounded-xl">
+                <p className="text-xs text-gray-500">{label}</p>
+                <p className="text-xl font-bold text-gray-900">{formatPercent(value)}</p>
+                {change && <p className={`text-xs ${changeColor(change)}`}>{formatChange(change)}</p>}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {report.samples} samples · rules v{report.rulesVersion}
+            {report.personalizedFor !== null ? ` · personalized for ${report.personalizedFor || 'default profile'}` : ''}
+          </p>
+
+          {diff && (
+            <div className="p-3 bg-gray-50 rounded-xl text-sm space-y-1">
+              {diff.warnings.map(warning => (
+                <p key={warning} className="text-amber-700">⚠️ {warning}</p>
+              ))}
+              <p className="text-gray-700">
+                <span className="text-green-700">{diff.fixed.length} fixed</span> ·{' '}
+                <span className="text-red-700">{diff.broken.length} broken</span> against the baseline
+              </p>
+              {diff.broken.length > 0 && (
+                <p className="text-xs font-mono text-red-700 break-words">
+                  {diff.broken.slice(0, 20).map(result => `${result.expected}→${result.predicted || '∅'}`).join(' ')}
+                  {diff.broken.length > 20 ? ' …' : ''}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-gray-900">Confusion matrix</h4>
+              <div className="flex space-x-1">
+                {(['groups', 'letters'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setMatrixView(view)}
+                    className={`px-2 py-1 rounded text-xs font-medium ${matrixView === view ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700'}`}
+                  >
+                    {view === 'groups' ? `${report.groups.length} groups` : `${report.letters.length} letters`}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {matrixView === 'groups'
+              ? <ConfusionMatrix labels={report.groups} matrix={report.groupConfusion} />
+              : <ConfusionMatrix labels={report.letters} matrix={report.letterConfusion} />}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Per letter</h4>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th>Letter</th>
+                    <th>n</th>
+                    <th>Precision</th>
+                    <th>Recall</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.perLetter.filter(metrics => metrics.support > 0 || metrics.predicted > 0).map(metrics => {
+                    const before = baselineLetters.get(metrics.letter);
+                    const precision = { baseline: before?.precision ?? null, current: metrics.precision };
+                    const recall = { baseline: before?.recall ?? null, current: metrics.recall };
+                    return (
+                      <tr key={metrics.letter} className="border-t border-gray-100">
+                        <td className="font-mono font-bold">{metrics.letter}</td>
+                        <td>{metrics.support}</td>
+                        <td className={baseline ? changeColor(precision) : ''}>{formatPercent(metrics.precision)}</td>
+                        <td className={baseline ? changeColor(recall) : ''}>{formatPercent(metrics.recall)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Rule hits</h4>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th>Rule</th>
+                    <th>Checked</th>
+                    <th>Fired</th>
+                    <th>Correct</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rules.map(hits => {
+                    const change = diff?.rules.find(rule => rule.id === hits.id);
+                    return (
+                      <tr key={hits.id} className="border-t border-gray-100">
+                        <td className="font-mono break-all">{hits.id}</td>
+                        <td>{hits.evaluated}</td>
+                        <td className={change ? 'font-semibold text-indigo-700' : ''}>
+                          {hits.fired}{change && change.fired.baseline !== null ? ` (was ${change.fired.baseline})` : ''}
+                        </td>
+                        <td>{hits.firedCorrect}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvaluatorPanel;
@@ -1,13 +1,22 @@
 import React from 'react';
 import { Hand, Activity } from 'lucide-react';
-import { HAND_CONNECTIONS } from '../utils/handLandmarks';
+import { DetectedHand, HAND_CONNECTIONS } from '../utils/handLandmarks';
 
 interface HandVisualizationProps {
-  landmarks: any[];
+  // Signing hand first
+  hands: DetectedHand[];
   isActive: boolean;
 }
 
-const HandVisualization: React.FC<HandVisualizationProps> = ({ landmarks, isActive }) => {
+// Line and point colors per hand: signing hand in purple, the other in indigo
+const HAND_PALETTES = [
+  { line: '#8B5CF6', wrist: '#8B5CF6', point: '#A78BFA' },
+  { line: '#6366F1', wrist: '#6366F1', point: '#A5B4FC' }
+];
+
+const HandVisualization: React.FC<HandVisualizationProps> = ({ hands, isActive }) => {
+  const landmarkCount = hands.reduce((count, hand) => count + hand.landmarks.length, 0);
+
   return (
     <div className="bg-white rounded-2xl shadow-xl p-6">
       <div className="flex items-center space-x-3 mb-4">
@@ -17,40 +26,46 @@ const HandVisualization: React.FC<HandVisualizationProps> = ({ landmarks, isActi
         <div>
           <h3 className="text-lg font-semibold text-gray-900">Hand Tracking</h3>
           <p className="text-sm text-gray-600">
-            {landmarks.length > 0 ? `${landmarks.length} landmarks detected` : 'No hand detected'}
+            {landmarkCount > 0
+              ? `${landmarkCount} landmarks detected${hands.length > 1 ? ' on 2 hands' : ''}`
+              : 'No hand detected'}
           </p>
         </div>
       </div>
 
       <div className="bg-gradient-to-br from-purple-50 to-indigo-50 rounded-xl p-6 border border-purple-100">
-        {isActive && landmarks.length > 0 ? (
+        {isActive && landmarkCount > 0 ? (
           <div className="relative">
             <svg className="w-full h-48" viewBox="0 0 400 400">
-              {/* Connection lines */}
-              {HAND_CONNECTIONS.map(([start, end], index) => (
-                landmarks[start] && landmarks[end] && (
-                  <line
-                    key={`connection-${index}`}
-                    x1={landmarks[start].x}
-                    y1={landmarks[start].y}
-                    x2={landmarks[end].x}
-                    y2={landmarks[end].y}
-                    stroke="#8B5CF6"
-                    strokeWidth="2"
-                  />
-                )
-              ))}
-              
-              {/* Hand landmarks */}
-              {landmarks.map((point, index) => (
-                <circle
-                  key={index}
-                  cx={point.x}
-                  cy={point.y}
-                  r={index === 0 ? 6 : 4}
-                  fill={index === 0 ? '#8B5CF6' : '#A78BFA'}
-                  fillOpacity={0.8}
-                />
+              {hands.map(({ landmarks }, handIndex) => (
+                <g key={handIndex}>
+                  {/* Connection lines */}
+                  {HAND_CONNECTIONS.map(([start, end], index) => (
+                    landmarks[start] && landmarks[end] && (
+                      <line
+                        key={`connection-${index}`}
+                        x1={landmarks[start].x}
+                        y1={landmarks[start].y}
+                        x2={landmarks[end].x}
+                        y2={landmarks[end].y}
+                        stroke={HAND_PALETTES[handIndex].line}
+                        strokeWidth="2"
+                      />
+                    )
+                  ))}
+                  
+                  {/* Hand landmarks */}
+                  {landmarks.map((point, index) => (
+                    <circle
+                      key={index}
+                      cx={point.x}
+                      cy={point.y}
+                      r={index === 0 ? 6 : 4}
+                      fill={index === 0 ? HAND_PALETTES[handIndex].wrist : HAND_PALETTES[handIndex].point}
+                      fillOpacity={0.8}
+                    />
+                  ))}
+                </g>
               ))}
             </svg>
             
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { UserCog, Sparkles, RotateCcw, Loader } from 'lucide-react';
+import { HandDetectionOptions } from '../hooks/useHandDetection';
+import { CalibrationWeights } from '../utils/calibration';
+import { DatasetStore } from '../utils/datasetStore';
+import { PersonalizationStore } from '../utils/personalizationStore';
+import { InferenceClient } from '../utils/inferenceClient';
+import { resolveBackendPreference } from '../utils/backendChoice';
+
+interface PersonalizationPanelProps {
+  detectionOptions: HandDetectionOptions;
+  // Signer from the dataset settings; each signer has their own head per model
+  user: string;
+  // Called with the signer's saved head when the model or signer changes, a new head after
+  // training, and null after a revert
+  onChange: (weights: CalibrationWeights | null) => void;
+}
+
+// Fewer samples than this mostly teach the head the last letter captured
+const MIN_SAMPLES = 20;
+
+const datasetStore = new DatasetStore();
+const personalizationStore = new PersonalizationStore();
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const PersonalizationPanel: React.FC<PersonalizationPanelProps> = ({ detectionOptions, user, onChange }) => {
+  const { alphabet, model, backend, calibration } = detectionOptions;
+  const [isTraining, setIsTraining] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  // Load the signer's saved head for this model
+  useEffect(() => {
+    let isCurrent = true;
+    personalizationStore.get(model.id, user)
+      .then(weights => {
+        if (isCurrent) onChange(weights);
+      })
+      .catch(err => console.warn('⚠️ Could not read personalization:', err));
+    return () => {
+      isCurrent = false;
+    };
+  }, [model.id, user, onChange]);
+
+  const personalize = async () => {
+    setIsTraining(true);
+    setError('');
+    // Trains in its own worker so live recognition keeps running meanwhile
+    const inference = new InferenceClient();
+    try {
+      const samples = (await datasetStore.list())
+        .filter(sample => sample.signer === user && sample.alphabetId === alphabet.id)
+        .map(sample => ({ hands: sample.hands, label: sample.letter }));
+      if (samples.length < MIN_SAMPLES) {
+        throw new Error(`${samples.length} ${alphabet.name} samples from this signer; capture at least ${MIN_SAMPLES}`);
+      }
+
+      console.log(`🎯 Personalizing ${model.name} on ${samples.length} samples...`);
+      await inference.loadModel(alphabet, model, resolveBackendPreference(backend, model.id));
+      const weights = await inference.personalize(user, samples);
+      await personalizationStore.save(weights);
+      onChange(weights);
+    } catch (err) {
+      console.error('❌ Personalization failed:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      inference.dispose();
+      setIsTraining(false);
+    }
+  };
+
+  const revert = async () => {
+    setError('');
+    try {
+      await personalizationStore.delete(model.id, user);
+      onChange(null);
+      console.log(`↩️ ${model.name} reverted to the stock model`);
+    } catch (err) {
+      console.error('❌ Could not revert personalization:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const active = calibration?.modelId === model.id ? calibration : null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-amber-100 rounded-lg">
+          <UserCog className="w-6 h-6 text-amber-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Personalization</h3>
+          <p className="text-sm text-gray-600">{model.name} · {user || 'Default profile'}</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="p-3 bg-gray-50 rounded-xl text-sm">
+          {active ? (
+            <>
+              <p className="font-medium text-gray-900">Personalized on {active.samples} samples</p>
+              <p className="text-gray-600">
+                Accuracy on those samples: {formatPercent(active.accuracyBefore)} stock → {formatPercent(active.accuracyAfter)}
+              </p>
+              <p className="text-xs text-gray-500">{new Date(active.trainedAt).toLocaleString()}</p>
+            </>
+          ) : (
+            <p className="text-gray-600">Using the stock model. Capture samples as this signer, then personalize.</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={personalize}
+            disabled={isTraining}
+            className="flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium bg-amber-100 text-amber-700 hover:bg-amber-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isTraining ? <Loader className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            <span>{isTraining ? 'Training...' : active ? 'Retrain' : 'Personalize'}</span>
+          </button>
+          <button
+            onClick={revert}
+            disabled={!active || isTraining}
+            className="flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Revert to stock</span>
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">Personalization failed: {error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default PersonalizationPanel;
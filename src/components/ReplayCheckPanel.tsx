@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListChecks, Upload, X, Download, Loader, CheckCircle, XCircle } from 'lucide-react';
+import { HandDetectionOptions } from '../hooks/useHandDetection';
+import { AutoCommitOptions } from '../utils/autoCommit';
+import { LandmarkRecording, parseLandmarkRecording } from '../utils/landmarkRecording';
+import { ReplayProgress, ReplayResult, replayRecording } from '../utils/landmarkReplay';
+import { openClassifier } from '../utils/videoTranscriber';
+import { downloadText } from '../utils/download';
+
+interface ReplayCheckPanelProps {
+  // The live detection settings; replays use the same alphabet, model, gestures and smoothing
+  detectionOptions: HandDetectionOptions;
+  // Hands-free typing timing, applied whether or not hands-free typing is switched on
+  autoCommit: AutoCommitOptions;
+}
+
+interface CheckResult {
+  name: string;
+  // The classifier the recording was replayed with
+  modelId: string;
+  recording: LandmarkRecording | null;
+  result: ReplayResult | null;
+  error: string;
+}
+
+interface CheckProgress extends ReplayProgress {
+  file: string;
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// A recording without expected text is only run, not checked
+const outcome = ({ recording, result, error }: CheckResult): 'pass' | 'fail' | 'unchecked' => {
+  if (error) return 'fail';
+  if (recording?.expectedText === undefined) return 'unchecked';
+  return recording.expectedText === result?.text ? 'pass' : 'fail';
+};
+
+const ReplayCheckPanel: React.FC<ReplayCheckPanelProps> = ({ detectionOptions, autoCommit }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<CheckProgress | null>(null);
+  const [results, setResults] = useState<CheckResult[]>([]);
+  const [error, setError] = useState<string>('');
+
+  const isRunning = progress !== null;
+
+  // Stop a running check when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = async (files: File[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResults([]);
+    setError('');
+    setProgress({ file: '', done: 0, total: 0 });
+
+    const checked: CheckResult[] = [];
+    const classifier = await openClassifier(detectionOptions).catch(err => {
+      console.error('❌ Replay check could not load a classifier:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    });
+    try {
+      if (!classifier) return;
+      for (const file of files) {
+        let recording: LandmarkRecording | null = null;
+        try {
+          recording = parseLandmarkRecording(await file.text());
+          const result = await replayRecording(
+            recording,
+            { ...detectionOptions, autoCommit },
+            classifier.predict,
+            replayProgress => setProgress({ file: file.name, ...replayProgress }),
+            controller.signal
+          );
+          checked.push({ name: file.name, modelId: classifier.modelId, recording, result, error: '' });
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          checked.push({
+            name: file.name,
+            modelId: classifier.modelId,
+            recording,
+            result: null,
+            error: err instanceof Error ? err.message : 'Unknown error'
+          });
+        }
+        setResults([...checked]);
+      }
+
+      const failed = checked.filter(check => outcome(check) === 'fail').length;
+      console.log(`🧪 Replay check on ${classifier.modelId}: ${failed} of ${checked.length} recordings failed`);
+    } finally {
+      classifier?.dispose();
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  // Keep this run's text as the recording's expectation, along with the classifier and the
+  // settings that produced it, which is what `npm test` replays it with
+  const saveFixture = ({ name, modelId, recording, result }: CheckResult) => {
+    if (!recording || !result) return;
+    const { dominantHand, smoothing } = detectionOptions;
+    downloadText(
+      `${baseName(name)}.json`,
+      JSON.stringify({ ...recording, modelId, dominantHand, smoothing, expectedText: result.text }),
+      'application/json'
+    );
+  };
+
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-teal-100 rounded-lg">
+            <ListChecks className="w-6 h-6 text-teal-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Replay Check</h3>
+            <p className="text-sm text-gray-600">Landmark recordings, every frame predicted</p>
+          </div>
+        </div>
+
+        {isRunning ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg font-medium bg-red-100 text-red-700 hover:bg-red-200 transition-all duration-200"
+          >
+            <X className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+        ) : (
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg font-medium bg-teal-100 text-teal-700 hover:bg-teal-200 transition-all duration-200"
+          >
+            <Upload className="w-4 h-4" />
+            <span>Choose recordings</span>
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            if (files.length > 0) run(files);
+          }}
+        />
+      </div>
+
+      {progress && (
+        <div className="space-y-2 mb-4">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span className="flex items-center space-x-1">
+              <Loader className="w-3 h-3 animate-spin" />
+              <span>{progress.file || 'Loading model'}</span>
+            </span>
+            <span>{progress.done} / {progress.total} frames</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-teal-500 transition-all duration-200" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-4">Replay check failed: {error}</p>}
+
+      {results.length > 0 && (
+        <div className="space-y-2">
+          {results.map(check => {
+            const expected = check.recording?.expectedText;
+            const status = outcome(check);
+            return (
+              <div key={check.name} className="p-3 bg-gray-50 rounded-xl text-sm space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center space-x-2 font-medium text-gray-900">
+                    {status === 'pass' && <CheckCircle className="w-4 h-4 text-green-600" />}
+                    {status === 'fail' && <XCircle className="w-4 h-4 text-red-600" />}
+                    <span className="break-all">{check.name}</span>
+                  </span>
+                  {check.result && (
+                    <button
+                      onClick={() => saveFixture(check)}
+                      title="Download the recording with this text as its expectation"
+                      className="flex items-center space-x-1 px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    >
+                      <Download className="w-3 h-3" />
+                      <span>Save as fixture</span>
+                    </button>
+                  )}
+                </div>
+                {check.error && <p className="text-red-600">{check.error}</p>}
+                {check.result && (
+                  <p className="font-mono text-gray-900 break-words">
+                    {check.result.text || 'Nothing typed'}
+                    <span className="font-sans text-xs text-gray-500"> · {check.result.frames} frames</span>
+                  </p>
+                )}
+                {check.result && status === 'unchecked' && (
+                  <p className="text-xs text-gray-500">No expected text in this recording</p>
+                )}
+                {check.result && status === 'fail' && (
+                  <p className="font-mono text-red-700 break-words">expected: {expected || 'nothing typed'}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReplayCheckPanel;
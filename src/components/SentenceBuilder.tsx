@@ -1,12 +1,14 @@
 import React from 'react';
-import { Type, Trash2 } from 'lucide-react';
+import { Type, Trash2, Hash } from 'lucide-react';
+import { RecognitionMode } from '../utils/digitRecognizer';
 
 interface SentenceBuilderProps {
   sentence: string;
+  mode: RecognitionMode;
   onChange: (sentence: string) => void;
 }
 
-const SentenceBuilder: React.FC<SentenceBuilderProps> = ({ sentence, onChange }) => {
+const SentenceBuilder: React.FC<SentenceBuilderProps> = ({ sentence, mode, onChange }) => {
   return (
     <div className="bg-white rounded-2xl shadow-xl p-6">
       <div className="flex items-center justify-between mb-4">
@@ -20,15 +22,26 @@ const SentenceBuilder: React.FC<SentenceBuilderProps> = ({ sentence, onChange })
           </div>
         </div>
         
-        {sentence.trim() && (
-          <button
-            onClick={() => onChange('')}
-            className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200"
-            title="Clear sentence"
+        <div className="flex items-center space-x-2">
+          <span
+            className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${
+              mode === 'digits' ? 'bg-amber-100 text-amber-700' : 'bg-green-100 text-green-700'
+            }`}
           >
-            <Trash2 className="w-4 h-4" />
-          </button>
-        )}
+            {mode === 'digits' ? <Hash className="w-3 h-3" /> : <Type className="w-3 h-3" />}
+            <span>{mode === 'digits' ? 'Typing numbers' : 'Typing letters'}</span>
+          </span>
+
+          {sentence.trim() && (
+            <button
+              onClick={() => onChange('')}
+              className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors duration-200"
+              title="Clear sentence"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="relative">
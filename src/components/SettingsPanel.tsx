@@ -0,0 +1,294 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { AppSettings, AutoCommitSettings, SmoothingSettings } from '../utils/settings';
+import { DominantHandSetting } from '../utils/handLandmarks';
+import { GESTURE_COMMANDS } from '../utils/commandGestures';
+import { ALPHABETS, getAlphabet, modelsForAlphabet, resolveModel } from '../utils/alphabets';
+import { BACKEND_LABELS, BackendPreference } from '../utils/backendChoice';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+const DOMINANT_HAND_OPTIONS: { value: DominantHandSetting; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'left', label: 'Left' },
+  { value: 'right', label: 'Right' }
+];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const updateAutoCommit = (changes: Partial<AutoCommitSettings>) => {
+    onChange({ ...settings, autoCommit: { ...settings.autoCommit, ...changes } });
+  };
+
+  const updateSmoothing = (changes: Partial<SmoothingSettings>) => {
+    onChange({ ...settings, smoothing: { ...settings.smoothing, ...changes } });
+  };
+
+  const alphabet = getAlphabet(settings.alphabet);
+  const model = resolveModel(alphabet, settings.model);
+  const models = modelsForAlphabet(alphabet);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-slate-100 rounded-lg">
+          <SlidersHorizontal className="w-6 h-6 text-slate-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Settings</h3>
+          <p className="text-sm text-gray-600">Tune recognition to you</p>
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-6">
+        <div className="flex justify-between text-sm">
+          <span className="font-medium text-gray-700">Sign language</span>
+          <span className="text-gray-500">{alphabet.language}</span>
+        </div>
+        <div className="grid grid-cols-3 gap-2 p-1 bg-gray-100 rounded-xl">
+          {ALPHABETS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => onChange({ ...settings, alphabet: option.id, model: '' })}
+              title={option.language}
+              className={`py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                alphabet.id === option.id
+                  ? 'bg-white text-blue-700 shadow'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option.name}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          {alphabet.description}
+          {alphabet.referenceUrl && (
+            <>
+              {' · '}
+              <a href={alphabet.referenceUrl} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+                Reference chart
+              </a>
+            </>
+          )}
+        </p>
+        {alphabet.status === 'preview' && (
+          <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+            Preview: no trained model ships with this alphabet yet. Add one at {alphabet.model.url}.
+          </p>
+        )}
+        <label className="block">
+          <span className="text-xs text-gray-600">Model</span>
+          <select
+            value={model.id}
+            onChange={(e) => onChange({ ...settings, model: e.target.value })}
+            disabled={models.length < 2}
+            className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 disabled:bg-gray-50"
+          >
+            {models.map(option => (
+              <option key={option.id} value={option.id} disabled={!option.available && option.id !== model.id}>
+                {option.name} v{option.version}{option.available ? '' : ' (not shipped)'}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-600">Compute backend</span>
+          <select
+            value={settings.backend}
+            onChange={(e) => onChange({ ...settings, backend: e.target.value as BackendPreference })}
+            className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700"
+          >
+            {(Object.keys(BACKEND_LABELS) as BackendPreference[]).map(option => (
+              <option key={option} value={option}>
+                {BACKEND_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="font-medium text-gray-700">Signing hand</span>
+          <span className="text-gray-500">
+            {settings.dominantHand === 'auto' ? 'Detected automatically' : 'Fixed'}
+          </span>
+        </div>
+        <div className="grid grid-cols-3 gap-2 p-1 bg-gray-100 rounded-xl">
+          {DOMINANT_HAND_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onChange({ ...settings, dominantHand: option.value })}
+              className={`py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                settings.dominantHand === option.value
+                  ? 'bg-white text-blue-700 shadow'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-6 pt-6 border-t border-gray-100 space-y-4">
+        <label className="flex items-center justify-between cursor-pointer">
+          <div>
+            <p className="text-sm font-medium text-gray-700">Hands-free typing</p>
+            <p className="text-xs text-gray-500">Type a letter by holding the sign</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.autoCommit.enabled}
+            onChange={(e) => updateAutoCommit({ enabled: e.target.checked })}
+            className="w-5 h-5 accent-blue-600"
+          />
+        </label>
+
+        {settings.autoCommit.enabled && (
+          <div className="space-y-3">
+            <div>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>Hold time</span>
+                <span>{(settings.autoCommit.dwellMs / 1000).toFixed(1)}s</span>
+              </div>
+              <input
+                type="range"
+                min={400}
+                max={3000}
+                step={100}
+                value={settings.autoCommit.dwellMs}
+                onChange={(e) => updateAutoCommit({ dwellMs: Number(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>Minimum confidence</span>
+                <span>{(settings.autoCommit.minConfidence * 100).toFixed(0)}%</span>
+              </div>
+              <input
+                type="range"
+                min={0.1}
+                max={0.95}
+                step={0.05}
+                value={settings.autoCommit.minConfidence}
+                onChange={(e) => updateAutoCommit({ minConfidence: Number(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>Repeat cooldown</span>
+                <span>{(settings.autoCommit.cooldownMs / 1000).toFixed(1)}s</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={4000}
+                step={100}
+                value={settings.autoCommit.cooldownMs}
+                onChange={(e) => updateAutoCommit({ cooldownMs: Number(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 pt-6 border-t border-gray-100 space-y-4">
+        <label className="flex items-center justify-between cursor-pointer">
+          <div>
+            <p className="text-sm font-medium text-gray-700">Jitter smoothing</p>
+            <p className="text-xs text-gray-500">Steady the tracked landmarks between frames</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.smoothing.enabled}
+            onChange={(e) => updateSmoothing({ enabled: e.target.checked })}
+            className="w-5 h-5 accent-blue-600"
+          />
+        </label>
+
+        {settings.smoothing.enabled && (
+          <div className="space-y-3">
+            <div>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>Steadiness at rest</span>
+                <span>{settings.smoothing.minCutoff.toFixed(1)} Hz</span>
+              </div>
+              {/* Lower cutoff is steadier, so the slider runs from high to low */}
+              <input
+                type="range"
+                min={-5}
+                max={-0.2}
+                step={0.1}
+                value={-settings.smoothing.minCutoff}
+                onChange={(e) => updateSmoothing({ minCutoff: -Number(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>Responsiveness when moving</span>
+                <span>{settings.smoothing.beta.toFixed(3)}</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={0.1}
+                step={0.005}
+                value={settings.smoothing.beta}
+                onChange={(e) => updateSmoothing({ beta: Number(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 pt-6 border-t border-gray-100">
+        <p className="text-sm font-medium text-gray-700 mb-3">Command gestures</p>
+        <div className="space-y-2">
+          {GESTURE_COMMANDS.map(item => (
+            <label key={item.command} className="flex items-center justify-between cursor-pointer">
+              <div>
+                <p className="text-sm text-gray-700">{item.label}</p>
+                <p className="text-xs text-gray-500">{item.gesture}</p>
+              </div>
+              <input
+                type="checkbox"
+                checked={settings.commands[item.command]}
+                onChange={(e) => onChange({
+                  ...settings,
+                  commands: { ...settings.commands, [item.command]: e.target.checked }
+                })}
+                className="w-5 h-5 accent-blue-600"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-6 pt-6 border-t border-gray-100">
+        <label className="flex items-center justify-between cursor-pointer">
+          <div>
+            <p className="text-sm font-medium text-gray-700">Diagnostics</p>
+            <p className="text-xs text-gray-500">Frame rate, latencies and memory under the camera</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.diagnostics}
+            onChange={(e) => onChange({ ...settings, diagnostics: e.target.checked })}
+            className="w-5 h-5 accent-blue-600"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
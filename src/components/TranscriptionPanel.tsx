@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileVideo, Upload, X, Download, Loader } from 'lucide-react';
+import { HandDetectionOptions } from '../hooks/useHandDetection';
+import {
+  DEFAULT_TRANSCRIPTION_SETTINGS,
+  TranscriptionProgress,
+  transcribeVideo
+} from '../utils/videoTranscriber';
+import { Transcript, transcriptToSrt } from '../utils/transcript';
+import { downloadText } from '../utils/download';
+
+interface TranscriptionPanelProps {
+  // The live detection settings; transcripts use the same alphabet, model and signing hand
+  detectionOptions: HandDetectionOptions;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ detectionOptions }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<TranscriptionProgress | null>(null);
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const isRunning = progress !== null;
+
+  // Stop a running transcription when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const start = async (file: File) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setTranscript(null);
+    setError('');
+    setProgress({ processedMs: 0, durationMs: 0, text: '' });
+
+    try {
+      console.log(`🎞️ Transcribing ${file.name}...`);
+      const result = await transcribeVideo(
+        file,
+        { ...detectionOptions, ...DEFAULT_TRANSCRIPTION_SETTINGS },
+        setProgress,
+        controller.signal
+      );
+      console.log(`✅ Transcribed ${file.name}: "${result.text}"`);
+      setTranscript(result);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('❌ Transcription failed:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const percent = progress && progress.durationMs > 0 ? (progress.processedMs / progress.durationMs) * 100 : 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-purple-100 rounded-lg">
+            <FileVideo className="w-6 h-6 text-purple-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Transcribe Video</h3>
+            <p className="text-sm text-gray-600">Fingerspelling from a recorded clip</p>
+          </div>
+        </div>
+
+        {isRunning ? (
+          <button
+            onClick={cancel}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg font-medium bg-red-100 text-red-700 hover:bg-red-200 transition-all duration-200"
+          >
+            <X className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+        ) : (
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg font-medium bg-purple-100 text-purple-700 hover:bg-purple-200 transition-all duration-200"
+          >
+            <Upload className="w-4 h-4" />
+            <span>Choose video</span>
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="video/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) start(file);
+          }}
+        />
+      </div>
+
+      {progress && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span className="flex items-center space-x-1">
+              <Loader className="w-3 h-3 animate-spin" />
+              <span>{progress.durationMs > 0 ? 'Analysing frames' : 'Loading video and model'}</span>
+            </span>
+            <span>
+              {formatSeconds(progress.processedMs)} / {formatSeconds(progress.durationMs)} · {percent.toFixed(0)}%
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-purple-500 transition-all duration-200" style={{ width: `${percent}%` }} />
+          </div>
+          {progress.text && <p className="font-mono text-sm text-gray-700 break-words">{progress.text}</p>}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">Transcription failed: {error}</p>}
+
+      {transcript && (
+        <div className="space-y-3">
+          <div className="p-4 bg-gray-50 rounded-xl">
+            <p className="text-xs text-gray-500 mb-1">
+              {transcript.source} · {formatSeconds(transcript.durationMs)} · {transcript.words.length} words
+            </p>
+            <p className="font-mono text-gray-900 break-words">{transcript.text || 'No letters recognized'}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => downloadText(
+                `${baseName(transcript.source)}.transcript.json`,
+                JSON.stringify(transcript, null, 2),
+                'application/json'
+              )}
+              className="flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>JSON</span>
+            </button>
+            <button
+              onClick={() => downloadText(`${baseName(transcript.source)}.srt`, transcriptToSrt(transcript), 'application/x-subrip')}
+              className="flex items-center justify-center space-x-2 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>SRT</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptionPanel;
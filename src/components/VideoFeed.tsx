@@ -1,71 +1,188 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Camera, CameraOff, Play, Pause, AlertCircle } from 'lucide-react';
-import { useHandDetection } from '../hooks/useHandDetection';
+import { Camera, CameraOff, Play, Pause, AlertCircle, Film, Images, History, Circle, Square } from 'lucide-react';
+import { HandDetectionOptions, useHandDetection } from '../hooks/useHandDetection';
+import { LetterCandidate } from '../utils/ruleEngine';
+import { DetectedHand, FrameSize } from '../utils/handLandmarks';
+import {
+  CAMERA_RESOLUTIONS,
+  DEFAULT_CAMERA_RESOLUTION,
+  FrameSource,
+  FrameSourceKind,
+  ImageSequenceSource,
+  ReplaySource,
+  VideoFileSource,
+  WebcamSource,
+  listCameras
+} from '../utils/frameSource';
+import { MODEL_HAND_CONNECTIONS } from '../utils/handRasterizer';
+import { parseLandmarkRecording } from '../utils/landmarkRecording';
+import { downloadText } from '../utils/download';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import { GESTURE_COMMANDS, GestureCommand } from '../utils/commandGestures';
+
+// How long the command confirmation stays on the video
+const COMMAND_TOAST_MS = 1200;
+
+// Stable empty value so parent state updates can bail out when no hand is visible
+const NO_HANDS: DetectedHand[] = [];
+
+// Signing hand first, then the other hand
+const HAND_COLORS = ['lime', 'cyan'];
+
+const SOURCE_OPTIONS: { kind: FrameSourceKind; label: string; icon: typeof Camera }[] = [
+  { kind: 'webcam', label: 'Camera', icon: Camera },
+  { kind: 'video-file', label: 'Video', icon: Film },
+  { kind: 'image-sequence', label: 'Images', icon: Images },
+  { kind: 'replay', label: 'Replay', icon: History }
+];
 
 interface VideoFeedProps {
   isRecording: boolean;
   onToggleRecording: () => void;
-  onHandDetection: (character: string, confidence: number, landmarks: any[]) => void;
+  onHandDetection: (character: string, confidence: number, hands: DetectedHand[], alternatives: LetterCandidate[]) => void;
+  onCommand: (command: GestureCommand) => void;
+  detectionOptions: HandDetectionOptions;
+  showDiagnostics: boolean;
 }
 
-const VideoFeed: React.FC<VideoFeedProps> = ({ isRecording, onToggleRecording, onHandDetection }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [hasPermission, setHasPermission] = useState<boolean>(false);
-  const [error, setError] = useState<string>('');
+const VideoFeed: React.FC<VideoFeedProps> = ({
+  isRecording,
+  onToggleRecording,
+  onHandDetection,
+  onCommand,
+  detectionOptions,
+  showDiagnostics
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [replayError, setReplayError] = useState<string>('');
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [cameraId, setCameraId] = useState<string>('');
+  const [resolution, setResolution] = useState<FrameSize>(DEFAULT_CAMERA_RESOLUTION);
+  const [source, setSource] = useState<FrameSource>(() => new WebcamSource());
   
-  const { handResults, currentCharacter, confidence, isModelLoaded, modelError } = useHandDetection(
-    videoRef.current,
-    isRecording
+  const {
+    handResults,
+    currentCharacter,
+    confidence,
+    alternatives,
+    lastCommand,
+    isModelLoaded,
+    isDegraded,
+    modelError,
+    sourceError,
+    isRecordingLandmarks,
+    startLandmarkRecording,
+    stopLandmarkRecording,
+    telemetry
+  } = useHandDetection(
+    source,
+    isRecording,
+    detectionOptions
   );
-  const [cameraError, setCameraError] = useState<string>('');
+  const [commandToast, setCommandToast] = useState<string>('');
+
+  // Pass detection results to parent component, including "nothing detected" so that
+  // hands-free typing sees the hand being released. Read through a ref like onCommand, so a
+  // new handler from every parent render doesn't re-send the same results
+  const onHandDetectionRef = useRef(onHandDetection);
+  onHandDetectionRef.current = onHandDetection;
 
-  // Pass detection results to parent component
   useEffect(() => {
-    if (currentCharacter && confidence > 0) {
-      onHandDetection(currentCharacter, confidence, handResults?.landmarks || []);
-    }
-  }, [currentCharacter, confidence, handResults, onHandDetection]);
+    onHandDetectionRef.current(currentCharacter, confidence, handResults?.hands || NO_HANDS, alternatives);
+  }, [currentCharacter, confidence, alternatives, handResults]);
+
+  // Route command gestures to the parent and confirm them on screen. The handler is read
+  // through a ref so each command fires once, not on every parent render
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
 
   useEffect(() => {
-    if (isRecording) {
-      startCamera();
-    } else {
-      stopCamera();
-    }
-  }, [isRecording]);
+    if (!lastCommand) return;
+    onCommandRef.current(lastCommand.command);
+    setCommandToast(GESTURE_COMMANDS.find(item => item.command === lastCommand.command)?.label ?? '');
+    const timeout = setTimeout(() => setCommandToast(''), COMMAND_TOAST_MS);
+    return () => clearTimeout(timeout);
+  }, [lastCommand]);
+
+  // The source creates its own video or image element; show it in the feed
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const { element } = source;
+    element.className = 'w-full h-full object-cover';
+    element.style.transform = source.mirrored ? 'scaleX(-1)' : '';
+    container.appendChild(element);
+    return () => element.remove();
+  }, [source]);
+
+  // Camera names are only readable once the camera is running
+  useEffect(() => {
+    if (source.kind !== 'webcam' || !isRecording || sourceError) return;
+    listCameras().then(setCameras).catch(error => console.warn('⚠️ Could not list cameras:', error));
+  }, [source, isRecording, sourceError]);
+
+  // Release whichever source is current when the feed goes away, so the camera turns off.
+  // A webcam source can start again after dispose, which StrictMode's remount relies on
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+  useEffect(() => () => sourceRef.current.dispose(), []);
 
-  const startCamera = async () => {
+  const replaceSource = (next: FrameSource) => {
+    source.dispose();
+    setSource(next);
+    setReplayError('');
+  };
+
+  const selectCamera = (deviceId: string, size: FrameSize) => {
+    setCameraId(deviceId);
+    setResolution(size);
+    replaceSource(new WebcamSource(deviceId, size));
+  };
+
+  const onVideoFile = (files: FileList | null) => {
+    if (files && files.length > 0) replaceSource(new VideoFileSource(files[0]));
+  };
+
+  const onImageFiles = (files: FileList | null) => {
+    if (files && files.length > 0) replaceSource(new ImageSequenceSource(Array.from(files)));
+  };
+
+  const onReplayFile = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480, facingMode: 'user' }
-      });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        await videoRef.current.play();
-      }
-      
-      setHasPermission(true);
-      setError('');
-      setCameraError('');
+      replaceSource(new ReplaySource(parseLandmarkRecording(await file.text()), file.name));
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Camera access denied';
-      const fullError = `Camera error: ${errorMessage}. Please enable camera permissions.`;
-      setError(fullError);
-      setCameraError(fullError);
-      setHasPermission(false);
-      console.error('Camera error:', err);
+      console.error('❌ Could not open recording:', err);
+      setReplayError(`${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
   };
 
-  const stopCamera = () => {
-    if (videoRef.current && videoRef.current.srcObject) {
-      const stream = videoRef.current.srcObject as MediaStream;
-      stream.getTracks().forEach(track => track.stop());
-      videoRef.current.srcObject = null;
+  const toggleLandmarkRecording = () => {
+    if (!isRecordingLandmarks) {
+      startLandmarkRecording();
+      return;
+    }
+    const recording = stopLandmarkRecording();
+    if (recording && recording.frames.length > 0) {
+      downloadText(
+        `signspeak-landmarks-${recording.recordedAt.replace(/[:.]/g, '-')}.json`,
+        JSON.stringify(recording),
+        'application/json'
+      );
     }
   };
 
+  const sourceErrorMessage = source.kind === 'webcam'
+    ? `Camera error: ${sourceError}. Please enable camera permissions.`
+    : `Could not play ${source.label}: ${sourceError}`;
+
+  const frameSize = handResults?.frameSize ?? DEFAULT_CAMERA_RESOLUTION;
+
   return (
     <div className="bg-white rounded-2xl shadow-xl overflow-hidden">
       <div className="p-6">
@@ -82,50 +199,165 @@ const VideoFeed: React.FC<VideoFeedProps> = ({ isRecording, onToggleRecording, o
               <h2 className="text-xl font-semibold text-gray-900">Camera Feed</h2>
               <p className="text-sm text-gray-600">
                 {isRecording ? 'Detecting sign language...' : 'Camera paused'}
+                {source.kind !== 'webcam' && ` · ${source.label}`}
               </p>
             </div>
           </div>
           
-          <button
-            onClick={onToggleRecording}
-            className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
-              isRecording
-                ? 'bg-red-100 text-red-700 hover:bg-red-200'
-                : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
-            }`}
-          >
-            {isRecording ? (
-              <>
-                <Pause className="w-4 h-4" />
-                <span>Pause</span>
-              </>
-            ) : (
-              <>
-                <Play className="w-4 h-4" />
-                <span>Start</span>
-              </>
-            )}
-          </button>
+          <div className="flex items-center space-x-2">
+            {/* Landmark capture for bug reports and fixtures; replays can be re-recorded too */}
+            <button
+              onClick={toggleLandmarkRecording}
+              disabled={!isRecording && !isRecordingLandmarks}
+              title="Record the detected landmarks to a replayable file"
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-all duration-200 disabled:opacity-50 ${
+                isRecordingLandmarks
+                  ? 'bg-red-600 text-white hover:bg-red-700'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {isRecordingLandmarks ? (
+                <>
+                  <Square className="w-4 h-4" />
+                  <span>Save</span>
+                </>
+              ) : (
+                <>
+                  <Circle className="w-4 h-4" />
+                  <span>Record</span>
+                </>
+              )}
+            </button>
+          
+            <button
+              onClick={onToggleRecording}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                isRecording
+                  ? 'bg-red-100 text-red-700 hover:bg-red-200'
+                  : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+              }`}
+            >
+              {isRecording ? (
+                <>
+                  <Pause className="w-4 h-4" />
+                  <span>Pause</span>
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4" />
+                  <span>Start</span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <div className="grid grid-cols-4 gap-1 p-1 bg-gray-100 rounded-xl">
+            {SOURCE_OPTIONS.map(option => (
+              <button
+                key={option.kind}
+                onClick={() => {
+                  if (option.kind === 'webcam') selectCamera(cameraId, resolution);
+                  if (option.kind === 'video-file') videoInputRef.current?.click();
+                  if (option.kind === 'image-sequence') imageInputRef.current?.click();
+                  if (option.kind === 'replay') replayInputRef.current?.click();
+                }}
+                className={`flex items-center justify-center space-x-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 ${
+                  source.kind === option.kind
+                    ? 'bg-white text-blue-700 shadow'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <option.icon className="w-4 h-4" />
+                <span>{option.label}</span>
+              </button>
+            ))}
+          </div>
+
+          {source.kind === 'webcam' && (
+            <>
+              <select
+                value={cameraId}
+                onChange={(e) => selectCamera(e.target.value, resolution)}
+                className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700"
+              >
+                <option value="">Default camera</option>
+                {cameras.map((camera, index) => (
+                  <option key={camera.deviceId} value={camera.deviceId}>
+                    {camera.label || `Camera ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={`${resolution.width}x${resolution.height}`}
+                onChange={(e) => selectCamera(cameraId, CAMERA_RESOLUTIONS[e.target.selectedIndex])}
+                className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700"
+              >
+                {CAMERA_RESOLUTIONS.map(size => (
+                  <option key={size.width} value={`${size.width}x${size.height}`}>
+                    {size.width}×{size.height}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+
+          <input
+            ref={videoInputRef}
+            type="file"
+            accept="video/*"
+            className="hidden"
+            onChange={(e) => {
+              onVideoFile(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          {replayError && <span className="text-sm text-red-600">{replayError}</span>}
+
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              onReplayFile(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              onImageFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
         </div>
 
         <div className="relative bg-gray-900 rounded-xl overflow-hidden aspect-video">
-          {(error || modelError || cameraError) ? (
-            <div className="absolute inset-0 flex items-center justify-center text-white">
+          {/* The source's video or image element is mounted here */}
+          <div ref={containerRef} className="absolute inset-0" />
+
+          {/* A failed model only blocks the feed when there is no rule-only fallback */}
+          {(sourceError || (modelError && !isDegraded)) && (
+            <div className="absolute inset-0 flex items-center justify-center text-white bg-gray-900">
               <div className="text-center">
-                {(error || cameraError) ? (
+                {sourceError ? (
                   <>
                     <CameraOff className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-                    <p className="text-gray-300">{error || cameraError}</p>
-                    <button 
-                      onClick={() => {
-                        setError('');
-                        setCameraError('');
-                        if (isRecording) startCamera();
-                      }}
-                      className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-                    >
-                      Retry Camera
-                    </button>
+                    <p className="text-gray-300">{sourceErrorMessage}</p>
+                    {source.kind === 'webcam' && (
+                      <button 
+                        onClick={() => selectCamera(cameraId, resolution)}
+                        className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                      >
+                        Retry Camera
+                      </button>
+                    )}
                   </>
                 ) : (
                   <>
@@ -139,14 +371,6 @@ const VideoFeed: React.FC<VideoFeedProps> = ({ isRecording, onToggleRecording, o
                 )}
               </div>
             </div>
-          ) : (
-            <video
-              ref={videoRef}
-              className="w-full h-full object-cover"
-              playsInline
-              muted
-              style={{ transform: 'scaleX(-1)' }}
-            />
           )}
           
           {/* Model loading indicator */}
@@ -159,8 +383,21 @@ const VideoFeed: React.FC<VideoFeedProps> = ({ isRecording, onToggleRecording, o
             </div>
           )}
           
+          {/* Rule-only fallback warning */}
+          {isDegraded && (
+            <div
+              className="absolute top-4 left-4 bg-amber-500 text-white px-3 py-1 rounded-full text-sm"
+              title={modelError}
+            >
+              <div className="flex items-center space-x-2">
+                <AlertCircle className="w-4 h-4" />
+                <span>Rule-only mode · lower accuracy</span>
+              </div>
+            </div>
+          )}
+          
           {/* Recording indicator */}
-          {isRecording && isModelLoaded && (
+          {isRecording && (isModelLoaded || isDegraded) && (
             <div className="absolute top-4 right-4 flex items-center space-x-2 bg-red-500 text-white px-3 py-1 rounded-full text-sm">
               <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
               <span>LIVE</span>
@@ -168,67 +405,81 @@ const VideoFeed: React.FC<VideoFeedProps> = ({ isRecording, onToggleRecording, o
           )}
           
           {/* Hand detection overlay */}
-          {isRecording && handResults && handResults.landmarks.length > 0 && (
+          {isRecording && handResults && handResults.hands.length > 0 && (
             <div className="absolute inset-0 pointer-events-none">
-              <svg className="w-full h-full" viewBox="0 0 640 480" style={{ transform: 'scaleX(-1)' }}>
-                {/* Hand landmark connections */}
-                {[
-                  // Thumb
-                  [0, 1], [1, 2], [2, 3], [3, 4],
-                  // Index finger
-                  [5, 6], [6, 7], [7, 8],
-                  // Middle finger
-                  [9, 10], [10, 11], [11, 12],
-                  // Ring finger
-                  [13, 14], [14, 15], [15, 16],
-                  // Pinky
-                  [17, 18], [18, 19], [19, 20],
-                  // Palm connections
-                  [5, 9], [9, 13], [13, 17],
-                  // Wrist connections
-                  [0, 5], [0, 17]
-                ].map(([start, end], index) => {
-                  const startPoint = handResults.landmarks[start];
-                  const endPoint = handResults.landmarks[end];
-                  if (startPoint && endPoint) {
-                    return (
-                      <line
-                        key={`connection-${index}`}
-                        x1={startPoint.x}
-                        y1={startPoint.y}
-                        x2={endPoint.x}
-                        y2={endPoint.y}
-                        stroke="lime"
-                        strokeWidth="2"
+              {/* Same cropping as the object-cover element underneath */}
+              <svg
+                className="w-full h-full"
+                viewBox={`0 0 ${frameSize.width} ${frameSize.height}`}
+                preserveAspectRatio="xMidYMid slice"
+                style={{ transform: source.mirrored ? 'scaleX(-1)' : undefined }}
+              >
+                {handResults.hands.map((hand, handIndex) => (
+                  <g key={handIndex}>
+                    {/* Hand landmark connections */}
+                    {MODEL_HAND_CONNECTIONS.map(([start, end], index) => {
+                      const startPoint = hand.landmarks[start];
+                      const endPoint = hand.landmarks[end];
+                      if (startPoint && endPoint) {
+                        return (
+                          <line
+                            key={`connection-${index}`}
+                            x1={startPoint.x}
+                            y1={startPoint.y}
+                            x2={endPoint.x}
+                            y2={endPoint.y}
+                            stroke={HAND_COLORS[handIndex]}
+                            strokeWidth="2"
+                          />
+                        );
+                      }
+                      return null;
+                    })}
+                    
+                    {/* Hand landmarks */}
+                    {hand.landmarks.map((landmark, index) => (
+                      <circle
+                        key={index}
+                        cx={landmark.x}
+                        cy={landmark.y}
+                        r={index === 0 ? 6 : 4}
+                        fill={HAND_COLORS[handIndex]}
+                        fillOpacity={index === 0 ? 0.9 : 0.7}
                       />
-                    );
-                  }
-                  return null;
-                })}
-                
-                {/* Hand landmarks */}
-                {handResults.landmarks.map((landmark, index) => (
-                  <circle
-                    key={index}
-                    cx={landmark.x}
-                    cy={landmark.y}
-                    r={index === 0 ? 6 : 4}
-                    fill="lime"
-                    fillOpacity={index === 0 ? 0.9 : 0.7}
-                  />
+                    ))}
+                  </g>
                 ))}
               </svg>
             </div>
           )}
           
+          {/* Detected signing hand */}
+          {isRecording && handResults && (
+            <div className="absolute top-14 right-4 bg-black bg-opacity-60 text-white px-3 py-1 rounded-full text-xs">
+              {handResults.handedness === 'left' ? 'Left hand' : 'Right hand'}
+              {handResults.hands.length > 1 && ' + other hand'}
+            </div>
+          )}
+          
+          {/* Command gesture confirmation */}
+          {isRecording && commandToast && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-indigo-600 text-white px-4 py-2 rounded-full text-sm font-medium shadow-lg">
+              {commandToast}
+            </div>
+          )}
+          
           {/* Current character overlay */}
           {isRecording && currentCharacter && confidence > 0.3 && (
             <div className="absolute bottom-4 left-4 bg-black bg-opacity-70 text-white px-4 py-2 rounded-lg">
               <div className="text-2xl font-bold">{currentCharacter}</div>
-              <div className="text-xs text-gray-300">{(confidence * 100).toFixed(1)}%</div>
+              <div className="text-xs text-gray-300">
+                {(confidence * 100).toFixed(1)}%{isDegraded && ' · rules only'}
+              </div>
             </div>
           )}
         </div>
+        
+        {showDiagnostics && <DiagnosticsPanel telemetry={telemetry} />}
       </div>
     </div>
   );
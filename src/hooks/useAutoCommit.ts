@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  AutoCommitController,
+  AutoCommitOptions,
+  AutoCommitState,
+  IDLE_AUTO_COMMIT_STATE
+} from '../utils/autoCommit';
+
+// Predictions only arrive a few times per second, so the dwell is ticked on a timer
+// to keep the progress ring smooth
+const TICK_MS = 50;
+
+export const useAutoCommit = (
+  character: string,
+  confidence: number,
+  enabled: boolean,
+  options: AutoCommitOptions,
+  onCommit: (character: string) => void
+) => {
+  const [state, setState] = useState<AutoCommitState>(IDLE_AUTO_COMMIT_STATE);
+  const controllerRef = useRef<AutoCommitController>(new AutoCommitController(options));
+  const predictionRef = useRef({ character, confidence });
+  const onCommitRef = useRef(onCommit);
+
+  predictionRef.current = { character, confidence };
+  onCommitRef.current = onCommit;
+
+  useEffect(() => {
+    controllerRef.current.setOptions(options);
+  }, [options]);
+
+  useEffect(() => {
+    const controller = controllerRef.current;
+    if (!enabled) {
+      controller.reset();
+      setState(IDLE_AUTO_COMMIT_STATE);
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const { character: letter, confidence: conf } = predictionRef.current;
+      const update = controller.update(letter, conf, Date.now());
+      // Keep the previous object while nothing visible changed, so idle ticks don't re-render
+      setState(previous => (
+        previous.phase === update.state.phase &&
+        previous.letter === update.state.letter &&
+        previous.progress === update.state.progress
+          ? previous
+          : update.state
+      ));
+      if (update.committed) {
+        console.log(`⌨️ Auto-committed: ${update.committed}`);
+        onCommitRef.current(update.committed);
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  return state;
+};
@@ -1,62 +1,112 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { Hands, Results } from '@mediapipe/hands';
-import { Camera } from '@mediapipe/camera_utils';
-import { HandLandmark, HandDetectionResult } from '../utils/handLandmarks';
-import { SignLanguageModel } from '../utils/signLanguageModel';
+import {
+  DetectedHand, DominantHandSetting, FrameSize, HandDetectionResult, referenceFrameSize, toReferenceFrame
+} from '../utils/handLandmarks';
+import { createHandsDetector, handsFromResults } from '../utils/mediaPipeHands';
+import { FrameSource, SourceFrame } from '../utils/frameSource';
+import { LandmarkRecorder, LandmarkRecording } from '../utils/landmarkRecording';
+import { InferenceClient } from '../utils/inferenceClient';
+import { SignPrediction, rankLetterCandidates } from '../utils/signLanguageModel';
+import { RuleOnlyClassifier } from '../utils/fallbackRecognizer';
+import { OneEuroOptions } from '../utils/oneEuroFilter';
+import { PredictionScheduler } from '../utils/predictionScheduler';
+import { PipelineTelemetry } from '../utils/telemetry';
+import { BackendPreference, rememberBackend, resolveBackendPreference } from '../utils/backendChoice';
+import { LetterCandidate } from '../utils/ruleEngine';
+import { RecognitionMode } from '../utils/digitRecognizer';
+import { AlphabetPack, ASL_ALPHABET } from '../utils/alphabets';
+import { ModelManifest } from '../utils/modelRegistry';
+import { CalibrationWeights } from '../utils/calibration';
+import { CommandToggles, DEFAULT_COMMAND_TOGGLES, GestureCommand } from '../utils/commandGestures';
+import { FramePipeline, NO_LETTER, RecognizedLetter } from '../utils/framePipeline';
 
-export const useHandDetection = (videoElement: HTMLVideoElement | null, isActive: boolean) => {
+const NO_ALTERNATIVES: LetterCandidate[] = [];
+
+export interface HandDetectionOptions {
+  alphabet: AlphabetPack;
+  // One of the alphabet's registered models
+  model: ModelManifest;
+  mode: RecognitionMode;
+  dominantHand: DominantHandSetting;
+  commands: CommandToggles;
+  // Landmark jitter filter; null passes raw landmarks through
+  smoothing: OneEuroOptions | null;
+  // tfjs backend for the inference worker
+  backend: BackendPreference;
+  // The signer's personalization head; null uses the stock model
+  calibration: CalibrationWeights | null;
+}
+
+export interface CommandEvent {
+  command: GestureCommand;
+  // Distinguishes repeats of the same command
+  at: number;
+}
+
+const DEFAULT_DETECTION_OPTIONS: HandDetectionOptions = {
+  alphabet: ASL_ALPHABET,
+  model: ASL_ALPHABET.model,
+  mode: 'letters',
+  dominantHand: 'auto',
+  commands: DEFAULT_COMMAND_TOGGLES,
+  smoothing: null,
+  backend: 'auto',
+  calibration: null
+};
+
+export const useHandDetection = (
+  source: FrameSource | null,
+  isActive: boolean,
+  options: HandDetectionOptions = DEFAULT_DETECTION_OPTIONS
+) => {
   const [handResults, setHandResults] = useState<HandDetectionResult | null>(null);
   const [currentCharacter, setCurrentCharacter] = useState<string>('');
   const [confidence, setConfidence] = useState<number>(0);
+  const [alternatives, setAlternatives] = useState<LetterCandidate[]>(NO_ALTERNATIVES);
   const [isModelLoaded, setIsModelLoaded] = useState<boolean>(false);
   const [modelError, setModelError] = useState<string>('');
+  // The frame source failed to start (camera permission, unplayable file)
+  const [sourceError, setSourceError] = useState<string>('');
+  // The model failed to load and the alphabet's rule-only fallback recognizes letters instead
+  const [isDegraded, setIsDegraded] = useState<boolean>(false);
   const [isInitializing, setIsInitializing] = useState<boolean>(true);
+  const [lastCommand, setLastCommand] = useState<CommandEvent | null>(null);
+  const [isRecordingLandmarks, setIsRecordingLandmarks] = useState<boolean>(false);
   
   const handsRef = useRef<Hands | null>(null);
-  const cameraRef = useRef<Camera | null>(null);
-  const modelRef = useRef<SignLanguageModel | null>(null);
-  const predictionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const inferenceRef = useRef<InferenceClient | null>(null);
+  const isModelReadyRef = useRef<boolean>(false);
+  const fallbackRef = useRef<RuleOnlyClassifier | null>(null);
   const isProcessingRef = useRef<boolean>(false);
-  const lastPredictionTime = useRef<number>(0);
+  // Size of the frame MediaPipe is working on, to convert its normalized landmarks to pixels
+  const frameSizeRef = useRef<FrameSize>({ width: 0, height: 0 });
+  const schedulerRef = useRef<PredictionScheduler>(new PredictionScheduler());
+  const telemetryRef = useRef<PipelineTelemetry>(new PipelineTelemetry());
+  // Bumped whenever the hand leaves the frame so late predictions are discarded
+  const handEpochRef = useRef<number>(0);
+  const pipelineRef = useRef<FramePipeline>(new FramePipeline(options));
+  const recorderRef = useRef<LandmarkRecorder | null>(null);
+  // onResults is registered once with MediaPipe, so it reads the options through a ref
+  const optionsRef = useRef<HandDetectionOptions>(options);
 
-  // Initialize MediaPipe and model
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  // Initialize MediaPipe and the inference worker
   useEffect(() => {
     const initializeSystem = async () => {
       try {
         console.log('🚀 Initializing hand detection system...');
         setIsInitializing(true);
         
-        // Initialize the sign language model first
-        modelRef.current = new SignLanguageModel();
-        
-        try {
-          console.log('📦 Loading AI model...');
-          await modelRef.current.loadModel();
-          setIsModelLoaded(true);
-          setModelError('');
-          console.log('✅ AI Model loaded successfully!');
-        } catch (modelErr) {
-          console.error('❌ Model loading failed:', modelErr);
-          setModelError(`Model loading failed: ${modelErr instanceof Error ? modelErr.message : 'Unknown error'}`);
-          setIsModelLoaded(false);
-        }
+        // The sign language model runs off the UI thread; it is loaded by the model effect below
+        inferenceRef.current = new InferenceClient();
 
         // Initialize MediaPipe Hands
         console.log('🤚 Initializing MediaPipe Hands...');
-        handsRef.current = new Hands({
-          locateFile: (file) => {
-            return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-          }
-        });
-
-        handsRef.current.setOptions({
-          maxNumHands: 1,
-          modelComplexity: 1,
-          minDetectionConfidence: 0.8,
-          minTrackingConfidence: 0.7
-        });
-
-        handsRef.current.onResults(onResults);
+        handsRef.current = createHandsDetector(onResults);
         console.log('✅ MediaPipe Hands initialized successfully!');
         
         setIsInitializing(false);
@@ -72,135 +122,271 @@ export const useHandDetection = (videoElement: HTMLVideoElement | null, isActive
 
     return () => {
       console.log('🧹 Cleaning up hand detection system...');
-      if (cameraRef.current) {
-        cameraRef.current.stop();
-      }
-      if (predictionTimeoutRef.current) {
-        clearTimeout(predictionTimeoutRef.current);
+      if (inferenceRef.current) {
+        inferenceRef.current.dispose();
+        inferenceRef.current = null;
       }
+      isModelReadyRef.current = false;
       if (handsRef.current) {
         handsRef.current.close();
       }
     };
   }, []);
 
-  // Handle camera start/stop
+  // Load the selected model, hot-swapping the previous one out of the worker
+  const { alphabet, model, backend } = options;
   useEffect(() => {
-    if (videoElement && handsRef.current && isActive && !isInitializing) {
-      startCamera();
-    } else if (cameraRef.current && !isActive) {
-      stopCamera();
-    }
-  }, [videoElement, isActive, isInitializing]);
+    const inference = inferenceRef.current;
+    if (!inference) return;
 
-  const startCamera = useCallback(() => {
-    if (!videoElement || !handsRef.current) return;
+    let isCurrent = true;
+    isModelReadyRef.current = false;
+    fallbackRef.current = null;
+    handEpochRef.current++;
+    inference.clearQueue();
+    setIsModelLoaded(false);
+    setIsDegraded(false);
+    setModelError('');
 
-    try {
-      console.log('📹 Starting camera...');
-      cameraRef.current = new Camera(videoElement, {
-        onFrame: async () => {
-          if (handsRef.current && !isProcessingRef.current) {
-            isProcessingRef.current = true;
-            try {
-              await handsRef.current.send({ image: videoElement });
-            } catch (error) {
-              console.error('❌ Error processing frame:', error);
-            } finally {
-              isProcessingRef.current = false;
-            }
-          }
-        },
-        width: 640,
-        height: 480
+    console.log(`📦 Loading ${model.name} v${model.version}...`);
+    inference.loadModel(alphabet, model, resolveBackendPreference(backend, model.id))
+      .then(loaded => {
+        // Remember a benchmark winner so later loads skip the benchmark; a manual choice
+        // that failed to initialize was benchmarked too, but isn't what the user asked for
+        if (loaded.benchmark && backend === 'auto') {
+          rememberBackend(model.id, loaded.backend);
+        }
+        if (!isCurrent) return;
+        isModelReadyRef.current = true;
+        setIsModelLoaded(true);
+        console.log(`✅ ${model.name} loaded successfully on ${loaded.backend}!`);
+      })
+      .catch(modelErr => {
+        if (!isCurrent) return;
+        console.error('❌ Model loading failed:', modelErr);
+        setModelError(`Model loading failed: ${modelErr instanceof Error ? modelErr.message : 'Unknown error'}`);
+
+        // Keep recognizing what the landmarks alone can tell apart
+        if (alphabet.fallbackRules) {
+          console.warn(`⚠️ Falling back to ${alphabet.name} rule-only recognition`);
+          fallbackRef.current = new RuleOnlyClassifier(alphabet.id, alphabet.fallbackRules);
+          setIsDegraded(true);
+        }
       });
-      
-      cameraRef.current.start();
-      console.log('✅ Camera started successfully');
-    } catch (error) {
-      console.error('❌ Failed to start camera:', error);
-      setModelError(`Camera error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }, [videoElement]);
 
-  const stopCamera = useCallback(() => {
-    if (cameraRef.current) {
-      cameraRef.current.stop();
-      cameraRef.current = null;
-      console.log('⏹️ Camera stopped');
-    }
-  }, []);
+    return () => {
+      isCurrent = false;
+    };
+  }, [alphabet, model, backend]);
+
+  // Apply the personalization head once the model is loaded; weights for another model are ignored
+  const calibration = options.calibration?.modelId === model.id ? options.calibration : null;
+  useEffect(() => {
+    const inference = inferenceRef.current;
+    if (!inference || !isModelLoaded) return;
+    inference.setCalibration(calibration)
+      .catch(error => console.warn('⚠️ Could not apply personalization:', error));
+  }, [calibration, isModelLoaded]);
+
+  // Everything after MediaPipe runs through the frame pipeline: smoothing, gestures and
+  // prediction. Camera frames arrive here through onResults, replayed frames directly with
+  // their recorded hands
+  const processHands = useCallback((frameHands: DetectedHand[], size: FrameSize, now: number) => {
+    recorderRef.current?.addFrame(frameHands, size, now);
+    const pipeline = pipelineRef.current;
+
+    const showLetter = ({ letter, confidence, prediction }: RecognizedLetter) => {
+      setCurrentCharacter(letter);
+      setConfidence(confidence);
+      setAlternatives(
+        prediction && letter
+          ? rankLetterCandidates(prediction).filter(candidate => candidate.letter !== letter).slice(0, 3)
+          : NO_ALTERNATIVES
+      );
+    };
+
+    const showPrediction = (prediction: SignPrediction) => {
+      const letter = pipeline.applyPrediction(prediction, now);
+      // A motion letter was recognized at or after this frame; keep it visible
+      if (!letter) return;
+      if (letter.letter) {
+        console.log(`✨ Detected: ${letter.letter} (${(letter.confidence * 100).toFixed(1)}%)`);
+      }
+      showLetter(letter);
+    };
 
-  const onResults = useCallback(async (results: Results) => {
     try {
-      if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-        const landmarks = results.multiHandLandmarks[0];
-        
-        // Convert MediaPipe landmarks to our format (pixel coordinates)
-        const handLandmarks: HandLandmark[] = landmarks.map(landmark => ({
-          x: landmark.x * 640, // Convert normalized to pixel coordinates
-          y: landmark.y * 480,
-          z: landmark.z || 0
-        }));
+      pipeline.setOptions(optionsRef.current);
+      const step = pipeline.step(toReferenceFrame(frameHands, size), now);
+
+      if (step.hands.length > 0) {
+        const { hands } = step;
+        const { landmarks: handLandmarks, handedness } = hands[0];
 
         setHandResults({
           landmarks: handLandmarks,
-          confidence: 0.9
+          confidence: 0.9,
+          handedness,
+          hands,
+          frameSize: referenceFrameSize(size)
         });
 
-        // Throttle predictions to avoid overwhelming the model
-        const now = Date.now();
-        if (now - lastPredictionTime.current > 500) { // Predict every 500ms
-          lastPredictionTime.current = now;
-          
-          if (predictionTimeoutRef.current) {
-            clearTimeout(predictionTimeoutRef.current);
+        if (step.command) {
+          console.log(`🎛️ Command gesture: ${step.command}`);
+          setLastCommand({ command: step.command, at: now });
+        }
+
+        if (step.letter) {
+          if (step.letter.letter && optionsRef.current.mode === 'letters') {
+            console.log(`🌀 Motion detected: ${step.letter.letter}`);
           }
+          showLetter(step.letter);
+        }
+
+        // The scheduler paces predictions by measured latency and skips frames where the hands
+        // held still, so each prediction runs on the newest frame that is worth it
+        const scheduler = schedulerRef.current;
+        const canPredict = fallbackRef.current !== null || (inferenceRef.current !== null && isModelReadyRef.current);
+        if (!step.predict || !canPredict || !scheduler.shouldPredict(hands, now)) return;
+        const predictionId = scheduler.start(hands, now);
 
-          predictionTimeoutRef.current = setTimeout(async () => {
-            if (modelRef.current && modelRef.current.isModelLoaded()) {
-              try {
-                console.log('🔮 Making prediction...');
-                const prediction = await modelRef.current.predict(handLandmarks);
-                
-                if (prediction.character && prediction.character.trim() !== '' && prediction.confidence > 0.3) {
-                  console.log(`✨ Detected: ${prediction.character} (${(prediction.confidence * 100).toFixed(1)}%)`);
-                  setCurrentCharacter(prediction.character);
-                  setConfidence(prediction.confidence);
-                } else {
-                  // Low confidence, clear character
-                  setCurrentCharacter('');
-                  setConfidence(0);
-                }
-              } catch (error) {
-                console.error('❌ Prediction failed:', error);
-                setCurrentCharacter('');
-                setConfidence(0);
+        // Without a model the fallback rules classify on this thread
+        if (fallbackRef.current) {
+          const started = performance.now();
+          const prediction = fallbackRef.current.classify(hands);
+          const duration = performance.now() - started;
+          telemetryRef.current.recordPrediction(duration, { preprocessMs: 0, inferenceMs: duration });
+          scheduler.finish(predictionId, Date.now());
+          showPrediction(prediction);
+        } else if (inferenceRef.current) {
+          const epoch = handEpochRef.current;
+          const inference = inferenceRef.current;
+          const started = performance.now();
+
+          // Inference runs in the worker; don't hold up MediaPipe while it completes
+          inference.predictLatest(hands)
+            .then(prediction => {
+              if (prediction) {
+                telemetryRef.current.recordPrediction(performance.now() - started, prediction.timings);
+                telemetryRef.current.setRuntime(inference.getRuntimeStats());
               }
-            }
-          }, 100); // Small delay for stability
+              // Dropped in favour of a newer frame, or the hand left in the meantime
+              if (!prediction || epoch !== handEpochRef.current) return;
+              showPrediction(prediction);
+            })
+            .catch(error => {
+              console.error('❌ Prediction failed:', error);
+              setCurrentCharacter('');
+              setConfidence(0);
+              setAlternatives(NO_ALTERNATIVES);
+            })
+            .finally(() => scheduler.finish(predictionId, Date.now()));
         }
       } else {
-        // No hand detected
+        // No hand detected; the pipeline has reset its gestures and filters
         setHandResults(null);
-        setCurrentCharacter('');
-        setConfidence(0);
-        
-        if (predictionTimeoutRef.current) {
-          clearTimeout(predictionTimeoutRef.current);
-        }
+        showLetter(NO_LETTER);
+
+        handEpochRef.current++;
+        inferenceRef.current?.clearQueue();
+        schedulerRef.current.reset();
       }
     } catch (error) {
-      console.error('❌ Error in onResults:', error);
+      console.error('❌ Error processing hands:', error);
     }
   }, []);
 
+  const onResults = useCallback((results: Results) => {
+    const frameSize = frameSizeRef.current;
+    processHands(handsFromResults(results, frameSize), frameSize, Date.now());
+  }, [processHands]);
+
+  // Frames go to MediaPipe one at a time; frames that arrive while it is busy are dropped
+  const handleFrame = useCallback(async (frame: SourceFrame) => {
+    const telemetry = telemetryRef.current;
+    telemetry.recordFrame(performance.now(), isProcessingRef.current);
+    if (!handsRef.current || isProcessingRef.current) return;
+
+    // Replayed frames already carry their hands
+    if (frame.type === 'landmarks') {
+      processHands(frame.hands, frame.size, frame.timestamp);
+      return;
+    }
+
+    isProcessingRef.current = true;
+    try {
+      frameSizeRef.current = frame.size;
+      const started = performance.now();
+      await handsRef.current.send({ image: frame.image });
+      telemetry.recordMediaPipe(performance.now() - started);
+    } catch (error) {
+      console.error('❌ Error processing frame:', error);
+    } finally {
+      isProcessingRef.current = false;
+    }
+  }, [processHands]);
+
+  // Run the frame source while detection is active
+  useEffect(() => {
+    if (!source || !isActive || isInitializing) return;
+
+    let isCurrent = true;
+    setSourceError('');
+    console.log(`📹 Starting ${source.label}...`);
+    source.start(handleFrame)
+      .then(() => console.log(`✅ ${source.label} started`))
+      .catch(error => {
+        if (!isCurrent) return;
+        console.error('❌ Failed to start frame source:', error);
+        setSourceError(error instanceof Error ? error.message : 'Unknown error');
+      });
+
+    return () => {
+      isCurrent = false;
+      source.stop();
+      console.log('⏹️ Frame source stopped');
+    };
+  }, [source, isActive, isInitializing, handleFrame]);
+
+  // Start capturing the raw hands of every processed frame
+  const startLandmarkRecording = useCallback(() => {
+    const { alphabet, model, dominantHand, smoothing } = optionsRef.current;
+    recorderRef.current = new LandmarkRecorder({
+      alphabetId: alphabet.id,
+      modelId: model.id,
+      dominantHand,
+      smoothing,
+      mirrored: source?.mirrored ?? false
+    });
+    setIsRecordingLandmarks(true);
+    console.log('⏺️ Recording landmarks');
+  }, [source]);
+
+  // Null when nothing was being recorded
+  const stopLandmarkRecording = useCallback((): LandmarkRecording | null => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setIsRecordingLandmarks(false);
+    if (!recorder) return null;
+
+    console.log(`⏹️ Recorded ${recorder.frameCount} frames`);
+    return recorder.finish();
+  }, []);
+
   return {
     handResults,
     currentCharacter,
     confidence,
+    alternatives,
+    lastCommand,
     isModelLoaded,
+    isDegraded,
     modelError,
-    isInitializing
+    sourceError,
+    isInitializing,
+    isRecordingLandmarks,
+    startLandmarkRecording,
+    stopLandmarkRecording,
+    telemetry: telemetryRef.current
   };
 };
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { RuleSet } from './ruleEngine';
+import { ASL_FALLBACK_RULES, ASL_RULES } from './aslRules';
+import { MotionLetter } from './motionRecognizer';
+import { ASL_CNN_MODEL, BSL_CNN_MODEL, ISL_CNN_MODEL, ModelManifest, MODEL_REGISTRY } from './modelRegistry';
+
+// An alphabet pack bundles everything needed to fingerspell one sign language: the default model
+// (whose manifest says what its output classes mean), the rules that pick a letter inside a
+// class and some reference metadata for the UI. Register new packs in ALPHABETS
+
+export type AlphabetStatus = 'ready' | 'preview';
+
+export interface AlphabetPack {
+  id: string;
+  name: string;
+  language: string;
+  description: string;
+  // 'preview' packs ship without a trained model yet
+  status: AlphabetStatus;
+  // Default model; other registered models for the same alphabet can be swapped in
+  model: ModelManifest;
+  // Written for the model's class layout (one default letter per class)
+  rules: RuleSet;
+  // Landmark-only letter rules used when the model can't be loaded
+  fallbackRules?: RuleSet;
+  // Letters signed with movement, recognized from the fingertip trajectory
+  motionLetters: MotionLetter[];
+  referenceUrl?: string;
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+// One class per letter, no disambiguation needed
+const singleLetterRules = (): RuleSet => ({
+  version: 1,
+  marginScale: 0.1,
+  groupRules: [],
+  letterRules: [],
+  defaultLetters: LETTERS
+});
+
+export const ASL_ALPHABET: AlphabetPack = {
+  id: 'asl',
+  name: 'ASL',
+  language: 'American Sign Language',
+  description: 'One-handed alphabet, 8-group CNN with landmark rules',
+  status: 'ready',
+  model: ASL_CNN_MODEL,
+  rules: ASL_RULES,
+  fallbackRules: ASL_FALLBACK_RULES,
+  motionLetters: ['J', 'Z'],
+  referenceUrl: 'https://www.nidcd.nih.gov/health/american-sign-language-fingerspelling-alphabets-image'
+};
+
+export const BSL_ALPHABET: AlphabetPack = {
+  id: 'bsl',
+  name: 'BSL',
+  language: 'British Sign Language',
+  description: 'Two-handed alphabet, also used for Auslan and NZSL',
+  status: 'preview',
+  model: BSL_CNN_MODEL,
+  rules: singleLetterRules(),
+  motionLetters: [],
+  referenceUrl: 'https://www.british-sign.co.uk/fingerspelling-alphabet-charts/'
+};
+
+export const ISL_ALPHABET: AlphabetPack = {
+  id: 'isl',
+  name: 'ISL',
+  language: 'Indian Sign Language',
+  description: 'Mostly two-handed alphabet',
+  status: 'preview',
+  model: ISL_CNN_MODEL,
+  rules: singleLetterRules(),
+  motionLetters: []
+};
+
+export const ALPHABETS: AlphabetPack[] = [ASL_ALPHABET, BSL_ALPHABET, ISL_ALPHABET];
+
+export const DEFAULT_ALPHABET_ID = ASL_ALPHABET.id;
+
+// Unknown ids (e.g. a pack removed since the setting was saved) fall back to the default
+export const getAlphabet = (id: string): AlphabetPack =>
+  ALPHABETS.find(alphabet => alphabet.id === id) ?? ASL_ALPHABET;
+
+export const modelsForAlphabet = (alphabet: AlphabetPack): ModelManifest[] =>
+  MODEL_REGISTRY.filter(manifest => manifest.alphabetId === alphabet.id);
+
+// The selected model when it fits the pack and ships, otherwise the pack's default
+export const resolveModel = (alphabet: AlphabetPack, modelId: string): ModelManifest =>
+  modelsForAlphabet(alphabet).find(manifest => manifest.id === modelId && manifest.available) ?? alphabet.model;
+
+// Rules are written for one class layout; a model with another layout would pick wrong letters
+export const assertModelFitsAlphabet = (alphabet: AlphabetPack, manifest: ModelManifest): void => {
+  if (manifest.classes.length !== alphabet.rules.defaultLetters.length) {
+    throw new Error(
+      `${manifest.name} has ${manifest.classes.length} classes but the ${alphabet.name} rules expect ${alphabet.rules.defaultLetters.length}`
+    );
+  }
+};
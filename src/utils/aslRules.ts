@@ -0,0 +1,215 @@
+import { RuleCondition, RuleSet, axisCondition as axis, distanceCondition as distance } from './ruleEngine';
+import { extended, folded, thumbIn, thumbOut, thumbTouches } from './shapeConditions';
+
+// Disambiguation rules ported from the Python cnn8grps post-processing.
+// Groups: 0 AEMNST, 1 BDFIKRUVW, 2 CO, 3 GH, 4 L, 5 PQZ, 6 X, 7 JY
+// Rules run on normalizeHandGeometry output, so every distance below is in palm lengths
+// (wrist to middle MCP). Axis rules compare two joints and need no threshold.
+// The Python code compared pixel distances on its 400x400 skeleton images, whose hands come
+// from a 640x480 webcam at arm's length: a palm of roughly 100px there. Each threshold is the
+// Python value divided by 100, so they are starting points rather than measurements; the
+// evaluator's rule hit counts (public/models/README.md, "Evaluator") show where one needs tuning
+
+// Index and middle tip gap minus their PIP gap: below this U, at or above it V (Python: 8px)
+const TIPS_TOGETHER = 0.08;
+// Middle tip to thumb tip for the open C curve (Python: 42px)
+const C_OPENING = 0.42;
+// Index tip to middle tip for G's pointing index (Python: 72px)
+const G_FINGERS_APART = 0.72;
+// Index tip to thumb tip for Y's spread thumb (Python: 42px)
+const Y_THUMB_SPREAD = 0.42;
+
+// Finger tip below its PIP joint (image y grows downwards)
+const fingersFolded = [axis('y', 6, 'lt', 8), axis('y', 10, 'lt', 12), axis('y', 14, 'lt', 16), axis('y', 18, 'lt', 20)];
+
+export const ASL_RULES: RuleSet = {
+  version: 1,
+  // A tenth of a palm length past a threshold counts as clearly satisfied
+  marginScale: 0.1,
+  groupRules: [
+    {
+      id: 'aemnst-fingers-folded',
+      description: 'All four fingers folded means the fist group',
+      whenPredicted: [[5, 2], [5, 3], [3, 5], [3, 6], [3, 0], [3, 2], [6, 4], [6, 1], [6, 2], [6, 6], [6, 7], [6, 0], [6, 5],
+        [4, 1], [1, 0], [1, 1], [6, 3], [1, 6], [5, 6], [5, 1], [4, 5], [1, 4], [1, 5], [2, 0], [2, 6], [4, 6],
+        [1, 0], [5, 7], [1, 6], [6, 1], [7, 6], [2, 5], [7, 1], [5, 4], [7, 0], [7, 5], [7, 2]],
+      conditions: fingersFolded,
+      setGroup: 0
+    },
+    {
+      id: 'os-thumb-outside',
+      description: 'Thumb outside the index knuckle separates S from O',
+      whenPredicted: [[2, 2], [2, 1]],
+      conditions: [axis('x', 5, 'lt', 4)],
+      setGroup: 0
+    },
+    {
+      id: 'c0-fingers-beyond-wrist',
+      description: 'Every tip on one side of the wrist is the C/O curve',
+      whenPredicted: [[0, 0], [0, 6], [0, 2], [0, 5], [0, 1], [0, 7], [5, 2], [7, 6], [7, 1]],
+      conditions: [
+        axis('x', 0, 'gt', 8), axis('x', 0, 'gt', 4), axis('x', 0, 'gt', 12),
+        axis('x', 0, 'gt', 16), axis('x', 0, 'gt', 20), axis('x', 5, 'gt', 4)
+      ],
+      setGroup: 2
+    }
+  ],
+  letterRules: [
+    // Group 0: the Python code lets later letters override earlier ones, so they are listed last-first
+    {
+      id: 'n-thumb-under-two',
+      group: 0,
+      letter: 'N',
+      conditions: [axis('x', 4, 'gt', 6), axis('x', 4, 'gt', 10), axis('y', 4, 'lt', 18), axis('y', 4, 'lt', 14)]
+    },
+    {
+      id: 'm-thumb-under-three',
+      group: 0,
+      letter: 'M',
+      conditions: [axis('x', 4, 'gt', 6), axis('x', 4, 'gt', 10), axis('x', 4, 'gt', 14), axis('y', 4, 'lt', 18)]
+    },
+    {
+      id: 'e-thumb-below-tips',
+      group: 0,
+      letter: 'E',
+      conditions: [axis('y', 4, 'gt', 8), axis('y', 4, 'gt', 12), axis('y', 4, 'gt', 16), axis('y', 4, 'gt', 20)]
+    },
+    {
+      id: 't-thumb-between-index-middle',
+      group: 0,
+      letter: 'T',
+      conditions: [
+        axis('x', 4, 'gt', 6), axis('x', 4, 'lt', 10), axis('x', 4, 'lt', 14),
+        axis('x', 4, 'lt', 18), axis('y', 4, 'lt', 14), axis('y', 4, 'lt', 18)
+      ]
+    },
+    {
+      id: 'a-thumb-beside-fist',
+      group: 0,
+      letter: 'A',
+      conditions: [axis('x', 4, 'lt', 6), axis('x', 4, 'lt', 10), axis('x', 4, 'lt', 14), axis('x', 4, 'lt', 18)]
+    },
+
+    // Group 1
+    {
+      id: 'b-all-fingers-up',
+      group: 1,
+      letter: 'B',
+      conditions: [axis('y', 6, 'gt', 8), axis('y', 10, 'gt', 12), axis('y', 14, 'gt', 16), axis('y', 18, 'gt', 20)]
+    },
+    {
+      id: 'd-index-up',
+      group: 1,
+      letter: 'D',
+      conditions: [axis('y', 6, 'gt', 8), axis('y', 10, 'lt', 12), axis('y', 14, 'lt', 16), axis('y', 18, 'lt', 20)]
+    },
+    {
+      id: 'f-three-fingers-up',
+      group: 1,
+      letter: 'F',
+      conditions: [axis('y', 6, 'lt', 8), axis('y', 10, 'gt', 12), axis('y', 14, 'gt', 16), axis('y', 18, 'gt', 20)]
+    },
+    {
+      id: 'i-pinky-up',
+      group: 1,
+      letter: 'I',
+      conditions: [axis('y', 6, 'lt', 8), axis('y', 10, 'lt', 12), axis('y', 14, 'lt', 16), axis('y', 18, 'gt', 20)]
+    },
+    {
+      id: 'w-three-fingers-up',
+      group: 1,
+      letter: 'W',
+      conditions: [axis('y', 6, 'gt', 8), axis('y', 10, 'gt', 12), axis('y', 14, 'gt', 16), axis('y', 18, 'lt', 20)]
+    },
+    {
+      id: 'k-thumb-raised',
+      group: 1,
+      letter: 'K',
+      conditions: [
+        axis('y', 6, 'gt', 8), axis('y', 10, 'gt', 12), axis('y', 14, 'lt', 16),
+        axis('y', 18, 'lt', 20), axis('y', 4, 'lt', 9)
+      ]
+    },
+    {
+      id: 'u-fingers-together',
+      group: 1,
+      letter: 'U',
+      conditions: [
+        distance([8, 12], 'lt', TIPS_TOGETHER, [6, 10]),
+        axis('y', 6, 'gt', 8), axis('y', 10, 'gt', 12), axis('y', 14, 'lt', 16), axis('y', 18, 'lt', 20)
+      ]
+    },
+    {
+      id: 'v-fingers-spread',
+      group: 1,
+      letter: 'V',
+      conditions: [
+        distance([8, 12], 'gte', TIPS_TOGETHER, [6, 10]),
+        axis('y', 6, 'gt', 8), axis('y', 10, 'gt', 12), axis('y', 14, 'lt', 16),
+        axis('y', 18, 'lt', 20), axis('y', 4, 'gt', 9)
+      ]
+    },
+    {
+      id: 'r-fingers-crossed',
+      group: 1,
+      letter: 'R',
+      conditions: [
+        axis('x', 8, 'gt', 12),
+        axis('y', 6, 'gt', 8), axis('y', 10, 'gt', 12), axis('y', 14, 'lt', 16), axis('y', 18, 'lt', 20)
+      ]
+    },
+
+    // Group 2
+    { id: 'c-open-curve', group: 2, letter: 'C', conditions: [distance([12, 4], 'gt', C_OPENING)] },
+
+    // Group 3
+    { id: 'g-fingers-apart', group: 3, letter: 'G', conditions: [distance([8, 12], 'gt', G_FINGERS_APART)] },
+
+    // Group 5
+    {
+      id: 'z-index-raised',
+      group: 5,
+      letter: 'Z',
+      conditions: [axis('x', 4, 'gt', 12), axis('x', 4, 'gt', 16), axis('x', 4, 'gt', 20), axis('y', 8, 'lt', 5)]
+    },
+    {
+      id: 'q-thumb-outside',
+      group: 5,
+      letter: 'Q',
+      conditions: [axis('x', 4, 'gt', 12), axis('x', 4, 'gt', 16), axis('x', 4, 'gt', 20)]
+    },
+
+    // Group 7
+    { id: 'y-thumb-spread', group: 7, letter: 'Y', conditions: [distance([8, 4], 'gt', Y_THUMB_SPREAD)] }
+  ],
+  defaultLetters: ['S', 'B', 'O', 'H', 'L', 'P', 'X', 'J']
+};
+
+const fallbackRule = (letter: string, conditions: RuleCondition[]) => ({
+  id: `fallback-${letter.toLowerCase()}`,
+  group: 0,
+  letter,
+  conditions
+});
+
+// Landmark-only letters for when no model is available. Only shapes that distances tell apart
+// reliably are covered; fist letters (A, E, M, N, S, T) and curved ones (C, O) are left out.
+// Thumb-touch shapes come first, like in DIGIT_RULES
+export const ASL_FALLBACK_RULES: RuleSet = {
+  version: 1,
+  marginScale: 0.1,
+  groupRules: [],
+  letterRules: [
+    fallbackRule('W', [thumbTouches('pinky'), extended('index'), extended('middle'), extended('ring')]),
+    fallbackRule('F', [thumbTouches('index'), extended('middle'), extended('ring'), extended('pinky')]),
+    fallbackRule('D', [thumbTouches('middle'), extended('index'), folded('ring'), folded('pinky')]),
+    fallbackRule('B', [extended('index'), extended('middle'), extended('ring'), extended('pinky'), thumbIn]),
+    fallbackRule('Y', [extended('pinky'), folded('index'), folded('middle'), folded('ring'), thumbOut]),
+    fallbackRule('I', [extended('pinky'), folded('index'), folded('middle'), folded('ring'), thumbIn]),
+    fallbackRule('L', [extended('index'), folded('middle'), folded('ring'), folded('pinky'), thumbOut]),
+    fallbackRule('V', [extended('index'), extended('middle'), folded('ring'), folded('pinky'), distance([8, 12], 'gt', TIPS_TOGETHER, [6, 10])]),
+    fallbackRule('U', [extended('index'), extended('middle'), folded('ring'), folded('pinky'), distance([8, 12], 'lte', TIPS_TOGETHER, [6, 10])])
+  ],
+  // No letter when nothing matches
+  defaultLetters: ['']
+};
@@ -0,0 +1,99 @@
+// Hands-free typing: a letter is committed once it has been predicted steadily for the dwell
+// time. After a commit the same letter only commits again once the hand has been "released"
+// (no confident prediction, or a different letter) and the cooldown has passed, which is how
+// double letters such as the "ll" in "hello" are entered
+
+export interface AutoCommitOptions {
+  dwellMs: number;
+  minConfidence: number;
+  cooldownMs: number;
+}
+
+export type AutoCommitPhase = 'idle' | 'dwelling' | 'awaitingRelease';
+
+export interface AutoCommitState {
+  phase: AutoCommitPhase;
+  letter: string;
+  // Dwell progress towards the next commit, 0..1
+  progress: number;
+}
+
+export interface AutoCommitUpdate {
+  state: AutoCommitState;
+  committed: string | null;
+}
+
+export const DEFAULT_AUTO_COMMIT_OPTIONS: AutoCommitOptions = {
+  dwellMs: 1200,
+  minConfidence: 0.5,
+  cooldownMs: 1500
+};
+
+export const IDLE_AUTO_COMMIT_STATE: AutoCommitState = { phase: 'idle', letter: '', progress: 0 };
+
+export class AutoCommitController {
+  private options: AutoCommitOptions;
+  private phase: AutoCommitPhase = 'idle';
+  private letter = '';
+  private dwellStart = 0;
+  private lastCommitted = '';
+  private lastCommitTime = -Infinity;
+
+  constructor(options: Partial<AutoCommitOptions> = {}) {
+    this.options = { ...DEFAULT_AUTO_COMMIT_OPTIONS, ...options };
+  }
+
+  setOptions(options: Partial<AutoCommitOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Call on every tick with the current prediction
+  update(letter: string, confidence: number, timestamp: number): AutoCommitUpdate {
+    const isConfident = letter.trim() !== '' && confidence >= this.options.minConfidence;
+
+    if (!isConfident) {
+      // Release: the next prediction starts a fresh dwell, even for the same letter
+      this.phase = 'idle';
+      this.letter = '';
+      return this.result(null, 0);
+    }
+
+    if (this.phase === 'awaitingRelease' && letter === this.letter) {
+      return this.result(null, 1);
+    }
+
+    if (this.phase !== 'dwelling' || letter !== this.letter) {
+      this.phase = 'dwelling';
+      this.letter = letter;
+      this.dwellStart = timestamp;
+    }
+
+    // Repeating the last letter also has to wait out the cooldown
+    const cooldownEnd = letter === this.lastCommitted ? this.lastCommitTime + this.options.cooldownMs : -Infinity;
+    const commitAt = Math.max(this.dwellStart + this.options.dwellMs, cooldownEnd);
+    const progress = Math.min(1, (timestamp - this.dwellStart) / Math.max(1, commitAt - this.dwellStart));
+
+    if (timestamp >= commitAt) {
+      this.phase = 'awaitingRelease';
+      this.lastCommitted = letter;
+      this.lastCommitTime = timestamp;
+      return this.result(letter, 1);
+    }
+
+    return this.result(null, progress);
+  }
+
+  reset(): void {
+    this.phase = 'idle';
+    this.letter = '';
+    this.lastCommitted = '';
+    this.lastCommitTime = -Infinity;
+  }
+
+  private result(committed: string | null, progress: number): AutoCommitUpdate {
+    return {
+      state: { phase: this.phase, letter: this.letter, progress },
+      committed
+    };
+  }
+}
@@ -0,0 +1,49 @@
+// Which tfjs backend the inference worker runs on. The worker benchmarks the available ones
+// when a model is first loaded; the winner is remembered here per model, since a small dense
+// model and the image CNN rarely prefer the same backend
+
+export type BackendName = 'webgl' | 'wasm' | 'cpu';
+
+// 'auto' uses the remembered benchmark winner, benchmarking first if there is none
+export type BackendPreference = 'auto' | BackendName;
+
+// Benchmark order; cpu comes last and is always available
+export const BACKENDS: BackendName[] = ['webgl', 'wasm', 'cpu'];
+
+export const BACKEND_LABELS: Record<BackendPreference, string> = {
+  auto: 'Automatic (fastest)',
+  webgl: 'WebGL (GPU)',
+  wasm: 'WebAssembly',
+  cpu: 'CPU (JavaScript)'
+};
+
+// One backend's benchmark result; null when it could not be initialized
+export interface BackendTiming {
+  backend: BackendName;
+  ms: number | null;
+}
+
+const STORAGE_KEY = 'signspeak.backends';
+
+const loadChoices = (): Record<string, BackendName> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+// The backend to ask the worker for: a manual override wins, then the remembered winner
+export const resolveBackendPreference = (preference: BackendPreference, modelId: string): BackendPreference => {
+  if (preference !== 'auto') return preference;
+  const remembered = loadChoices()[modelId];
+  return BACKENDS.includes(remembered) ? remembered : 'auto';
+};
+
+export const rememberBackend = (modelId: string, backend: BackendName): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadChoices(), [modelId]: backend }));
+  } catch (error) {
+    console.warn('⚠️ Could not save backend choice:', error);
+  }
+};
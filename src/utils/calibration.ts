@@ -0,0 +1,193 @@
+import * as tf from '@tensorflow/tfjs';
+import { DetectedHand } from './handLandmarks';
+import { ModelManifest } from './modelRegistry';
+
+// Personalization: the model's final softmax layer is copied into a small head and fine-tuned on
+// one signer's labeled samples. The rest of the network stays frozen, so training is a few
+// hundred milliseconds even on the CPU backend, and the saved weights are a few kilobytes.
+// The head starts from the stock weights, so an untrained head predicts exactly like the model
+
+export interface LabeledSample {
+  hands: DetectedHand[];
+  // Expected letter
+  label: string;
+}
+
+export interface CalibrationWeights {
+  modelId: string;
+  // Signer the head was trained for ('' is the default profile)
+  user: string;
+  trainedAt: string;
+  // Samples that went into training
+  samples: number;
+  // Class accuracy on those samples with the stock model and with the head
+  accuracyBefore: number;
+  accuracyAfter: number;
+  // Final dense layer: kernel is [features, classes], row-major
+  kernelShape: [number, number];
+  kernel: number[];
+  bias: number[];
+}
+
+export interface PersonalizeOptions {
+  epochs: number;
+  learningRate: number;
+}
+
+export const DEFAULT_PERSONALIZE_OPTIONS: PersonalizeOptions = {
+  epochs: 40,
+  learningRate: 0.001
+};
+
+// Turns hands into the model's batched input, or null when the signing hand is incomplete
+export type InputEncoder = (hands: DetectedHand[]) => tf.Tensor | null;
+
+const argMax = (values: ArrayLike<number>, offset: number, count: number): number => {
+  let best = 0;
+  for (let index = 1; index < count; index++) {
+    if (values[offset + index] > values[offset + best]) best = index;
+  }
+  return best;
+};
+
+export class CalibrationHead {
+  // The model up to the final dense layer's input. Shares the model's layers, so it is never
+  // disposed on its own
+  private features: tf.LayersModel;
+  private head: tf.Sequential;
+  private stockWeights: tf.Tensor[];
+  private isActive = false;
+
+  constructor(private manifest: ModelManifest, private model: tf.LayersModel) {
+    const output = model.layers[model.layers.length - 1];
+    const activation = (output.getConfig() as { activation?: string }).activation;
+    if (output.getClassName() !== 'Dense' || activation !== 'softmax') {
+      throw new Error(`${manifest.name} does not end in a softmax dense layer and can't be personalized`);
+    }
+
+    this.features = tf.model({ inputs: model.inputs, outputs: output.input as tf.SymbolicTensor });
+    const [kernel] = output.getWeights();
+    const [featureCount, classCount] = kernel.shape;
+    this.head = tf.sequential({
+      layers: [tf.layers.dense({ units: classCount, activation: 'softmax', inputShape: [featureCount] })]
+    });
+    // getWeights returns the layer's own variables' values; keep copies to revert to
+    this.stockWeights = output.getWeights().map(weight => weight.clone());
+    this.head.setWeights(this.stockWeights);
+  }
+
+  get isPersonalized(): boolean {
+    return this.isActive;
+  }
+
+  // Class probabilities for a batched input, through the head when one is active
+  predict(input: tf.Tensor): tf.Tensor {
+    return tf.tidy(() => this.isActive
+      ? this.head.predict(this.features.predict(input) as tf.Tensor) as tf.Tensor
+      : this.model.predict(input) as tf.Tensor);
+  }
+
+  // Use saved weights; null reverts to the stock model
+  setWeights(weights: CalibrationWeights | null): void {
+    if (!weights) {
+      this.head.setWeights(this.stockWeights);
+      this.isActive = false;
+      return;
+    }
+
+    if (weights.modelId !== this.manifest.id) {
+      throw new Error(`Personalization was trained for ${weights.modelId}, not ${this.manifest.id}`);
+    }
+    const [stockKernel, stockBias] = this.stockWeights;
+    const [featureCount, classCount] = weights.kernelShape;
+    if (featureCount !== stockKernel.shape[0] || classCount !== stockKernel.shape[1] || weights.bias.length !== stockBias.shape[0]) {
+      throw new Error(`Personalization weights don't fit ${this.manifest.name}; retrain them`);
+    }
+
+    const kernel = tf.tensor2d(weights.kernel, weights.kernelShape);
+    const bias = tf.tensor1d(weights.bias);
+    this.head.setWeights([kernel, bias]);
+    kernel.dispose();
+    bias.dispose();
+    this.isActive = true;
+  }
+
+  // Fine-tune from the stock weights on the samples and switch to the result. Samples whose letter
+  // isn't one of the model's classes, or without a complete hand, are skipped
+  async train(
+    user: string,
+    samples: LabeledSample[],
+    encode: InputEncoder,
+    options: PersonalizeOptions = DEFAULT_PERSONALIZE_OPTIONS
+  ): Promise<CalibrationWeights> {
+    // Embed one sample at a time: a batch of 400x400 images would need hundreds of megabytes
+    const embeddings: tf.Tensor[] = [];
+    const labels: number[] = [];
+    for (const sample of samples) {
+      const label = this.manifest.classes.findIndex(letters => letters.includes(sample.label));
+      if (label < 0) continue;
+      const embedding = tf.tidy((): tf.Tensor | undefined => {
+        const input = encode(sample.hands);
+        return input ? this.features.predict(input) as tf.Tensor : undefined;
+      });
+      if (!embedding) continue;
+      embeddings.push(embedding);
+      labels.push(label);
+    }
+    if (embeddings.length === 0) {
+      throw new Error(`None of the samples are letters ${this.manifest.name} can recognize`);
+    }
+
+    const classCount = this.manifest.classes.length;
+    const inputs = tf.concat(embeddings);
+    embeddings.forEach(embedding => embedding.dispose());
+    const targets = tf.tidy(() => tf.oneHot(tf.tensor1d(labels, 'int32'), classCount));
+
+    const optimizer = tf.train.adam(options.learningRate);
+
+    const accuracy = async (): Promise<number> => {
+      const probabilities = this.head.predict(inputs) as tf.Tensor;
+      const values = await probabilities.data();
+      probabilities.dispose();
+      const correct = labels.filter((label, index) => argMax(values, index * classCount, classCount) === label).length;
+      return correct / labels.length;
+    };
+
+    try {
+      // Training replaces whatever head was active
+      this.head.setWeights(this.stockWeights);
+      this.isActive = false;
+      const accuracyBefore = await accuracy();
+
+      this.head.compile({ optimizer, loss: 'categoricalCrossentropy' });
+      await this.head.fit(inputs, targets, { epochs: options.epochs, batchSize: 16, shuffle: true, verbose: 0 });
+      const accuracyAfter = await accuracy();
+
+      const [kernel, bias] = this.head.getWeights();
+      const [featureCount] = kernel.shape;
+      this.isActive = true;
+      console.log(`🎯 Personalized ${this.manifest.name} on ${labels.length} samples: ${(accuracyBefore * 100).toFixed(0)}% → ${(accuracyAfter * 100).toFixed(0)}%`);
+
+      return {
+        modelId: this.manifest.id,
+        user,
+        trainedAt: new Date().toISOString(),
+        samples: labels.length,
+        accuracyBefore,
+        accuracyAfter,
+        kernelShape: [featureCount, classCount],
+        kernel: Array.from(await kernel.data()),
+        bias: Array.from(await bias.data())
+      };
+    } finally {
+      optimizer.dispose();
+      inputs.dispose();
+      targets.dispose();
+    }
+  }
+
+  dispose(): void {
+    this.head.dispose();
+    this.stockWeights.forEach(weight => weight.dispose());
+  }
+}
@@ -0,0 +1,89 @@
+import { DetectedHand } from './handLandmarks';
+import { AlphabetPack } from './alphabets';
+import { ModelManifest } from './modelRegistry';
+import { SignClassifier, SignLanguageModel, SignPrediction } from './signLanguageModel';
+import { LandmarkClassifier } from './landmarkClassifier';
+import { percentile } from './telemetry';
+import { LabeledSample } from './calibration';
+import { EvaluationProgress } from './evaluation';
+
+// Pick the classifier type from the manifest's preprocessing
+export const createSignClassifier = (
+  alphabet: AlphabetPack,
+  manifest: ModelManifest,
+  modelUrl: string = manifest.url
+): SignClassifier => {
+  switch (manifest.preprocessing.kind) {
+    case 'skeleton-image':
+      return new SignLanguageModel(alphabet, manifest, modelUrl);
+    case 'landmark-vector':
+      return new LandmarkClassifier(alphabet, manifest, modelUrl);
+  }
+};
+
+// A classifier behind a predict function, wherever it runs: in an inference worker or on
+// this thread. predict resolves with null when there was no prediction for the frame
+export interface FrameClassifier {
+  modelId: string;
+  predict: (hands: DetectedHand[]) => Promise<SignPrediction | null>;
+  dispose: () => void;
+}
+
+export interface ClassifierReport {
+  modelId: string;
+  samples: number;
+  accuracy: number;
+  meanLatencyMs: number;
+  p95LatencyMs: number;
+}
+
+export interface ClassifierComparison {
+  reports: ClassifierReport[];
+  // Share of samples where every classifier predicted the same letter
+  agreement: number;
+}
+
+// Run loaded classifiers on the same landmarks, one after the other so their timings don't
+// interfere, and report accuracy and per-prediction latency for each. Latency is what the
+// caller waits for, so for a worker it includes the message round trip
+export const compareClassifiers = async (
+  classifiers: FrameClassifier[],
+  samples: LabeledSample[],
+  onProgress?: (progress: EvaluationProgress) => void,
+  signal?: AbortSignal
+): Promise<ClassifierComparison> => {
+  const letters = samples.map(() => new Set<string>());
+  const total = classifiers.length * samples.length;
+
+  const reports: ClassifierReport[] = [];
+  for (const [classifierIndex, classifier] of classifiers.entries()) {
+    const latencies: number[] = [];
+    let correct = 0;
+
+    for (const [index, sample] of samples.entries()) {
+      if (signal?.aborted) {
+        throw new Error('Comparison cancelled');
+      }
+
+      const started = performance.now();
+      const prediction = await classifier.predict(sample.hands);
+      latencies.push(performance.now() - started);
+
+      const character = prediction?.character ?? '';
+      if (character === sample.label) correct++;
+      letters[index].add(character);
+      onProgress?.({ done: classifierIndex * samples.length + index + 1, total });
+    }
+
+    reports.push({
+      modelId: classifier.modelId,
+      samples: samples.length,
+      accuracy: samples.length > 0 ? correct / samples.length : 0,
+      meanLatencyMs: latencies.reduce((sum, latency) => sum + latency, 0) / Math.max(1, latencies.length),
+      p95LatencyMs: percentile(latencies, 0.95)
+    });
+  }
+
+  const agreed = letters.filter(predicted => predicted.size === 1).length;
+  return { reports, agreement: samples.length > 0 ? agreed / samples.length : 0 };
+};
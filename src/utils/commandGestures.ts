@@ -0,0 +1,149 @@
+import { HandLandmark, PALM_BASE, PALM_TIP, calculateDistance } from './handLandmarks';
+import { evaluateCondition } from './ruleEngine';
+import { FINGER_JOINTS, Finger, extended, folded } from './shapeConditions';
+
+// Reserved gestures that edit the sentence instead of typing a letter. They are chosen so
+// they can't be confused with fingerspelled letters: the thumb poses need the palm turned
+// sideways, and swipes need the whole open hand to travel across the frame
+
+export type GestureCommand = 'space' | 'backspace' | 'speak' | 'clear' | 'toggleMode';
+
+export type CommandToggles = Record<GestureCommand, boolean>;
+
+export const GESTURE_COMMANDS: { command: GestureCommand; label: string; gesture: string }[] = [
+  { command: 'space', label: 'Space', gesture: 'Swipe an open palm sideways' },
+  { command: 'backspace', label: 'Backspace', gesture: 'Thumbs down' },
+  { command: 'speak', label: 'Speak', gesture: 'Thumbs up' },
+  { command: 'clear', label: 'Clear', gesture: 'Swipe an open palm downwards' },
+  { command: 'toggleMode', label: 'Letters / Numbers', gesture: 'Swipe an open palm upwards' }
+];
+
+export const DEFAULT_COMMAND_TOGGLES: CommandToggles = {
+  space: true,
+  backspace: true,
+  speak: true,
+  // Destructive, so opt-in
+  clear: false,
+  toggleMode: true
+};
+
+export interface CommandRecognizerOptions {
+  // How long a thumb pose must be held
+  holdMs: number;
+  // Time window and distance (in palm lengths) for a swipe
+  swipeWindowMs: number;
+  swipeDistance: number;
+  // Quiet period after any command
+  cooldownMs: number;
+}
+
+const DEFAULT_OPTIONS: CommandRecognizerOptions = {
+  holdMs: 600,
+  swipeWindowMs: 600,
+  swipeDistance: 1.5,
+  cooldownMs: 1000
+};
+
+// Thumb must stick out past its MCP by this many palm lengths
+const THUMB_EXTENSION = 0.5;
+
+interface PalmSample {
+  t: number;
+  x: number;
+  y: number;
+  palmLength: number;
+}
+
+const FINGERS = Object.keys(FINGER_JOINTS) as Finger[];
+
+const fingersFolded = (pts: HandLandmark[]): boolean =>
+  FINGERS.every(finger => evaluateCondition(folded(finger), pts));
+
+const handOpen = (pts: HandLandmark[]): boolean =>
+  FINGERS.every(finger => evaluateCondition(extended(finger), pts)) &&
+  calculateDistance(pts[PALM_BASE], pts[4]) > calculateDistance(pts[PALM_BASE], pts[3]);
+
+// Knuckles stacked vertically: the fist is turned sideways, unlike A, S or T
+const palmSideways = (pts: HandLandmark[]): boolean =>
+  Math.abs(pts[5].y - pts[17].y) > Math.abs(pts[5].x - pts[17].x);
+
+const thumbPose = (pts: HandLandmark[], palmLength: number): 'up' | 'down' | null => {
+  if (!fingersFolded(pts) || !palmSideways(pts)) return null;
+
+  const rise = (pts[2].y - pts[4].y) / palmLength;
+  if (rise > THUMB_EXTENSION && pts.every((p, index) => index === 4 || p.y > pts[4].y)) return 'up';
+  if (-rise > THUMB_EXTENSION && pts.every((p, index) => index === 4 || p.y < pts[4].y)) return 'down';
+  return null;
+};
+
+export class CommandGestureRecognizer {
+  private options: CommandRecognizerOptions;
+  private palmTrack: PalmSample[] = [];
+  private pose: { kind: 'up' | 'down'; since: number } | null = null;
+  private cooldownUntil = 0;
+
+  constructor(options: Partial<CommandRecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Feed one frame of pixel landmarks; returns a command when one completes
+  addFrame(landmarks: HandLandmark[], timestamp: number, enabled: CommandToggles): GestureCommand | null {
+    if (landmarks.length !== 21) {
+      this.reset();
+      return null;
+    }
+
+    const palmLength = calculateDistance(landmarks[PALM_BASE], landmarks[PALM_TIP]);
+    if (palmLength === 0 || timestamp < this.cooldownUntil) return null;
+
+    const command = this.detectThumbPose(landmarks, palmLength, timestamp) ?? this.detectSwipe(landmarks, palmLength, timestamp);
+    if (!command || !enabled[command]) return null;
+
+    this.reset();
+    this.cooldownUntil = timestamp + this.options.cooldownMs;
+    return command;
+  }
+
+  reset(): void {
+    this.palmTrack = [];
+    this.pose = null;
+  }
+
+  private detectThumbPose(pts: HandLandmark[], palmLength: number, timestamp: number): GestureCommand | null {
+    const kind = thumbPose(pts, palmLength);
+    if (!kind) {
+      this.pose = null;
+      return null;
+    }
+
+    if (this.pose?.kind !== kind) {
+      this.pose = { kind, since: timestamp };
+      return null;
+    }
+
+    if (timestamp - this.pose.since < this.options.holdMs) return null;
+    return kind === 'up' ? 'speak' : 'backspace';
+  }
+
+  private detectSwipe(pts: HandLandmark[], palmLength: number, timestamp: number): GestureCommand | null {
+    if (!handOpen(pts)) {
+      this.palmTrack = [];
+      return null;
+    }
+
+    this.palmTrack.push({ t: timestamp, x: pts[PALM_TIP].x, y: pts[PALM_TIP].y, palmLength });
+    while (timestamp - this.palmTrack[0].t > this.options.swipeWindowMs) {
+      this.palmTrack.shift();
+    }
+
+    const start = this.palmTrack[0];
+    const dx = (pts[PALM_TIP].x - start.x) / palmLength;
+    const dy = (pts[PALM_TIP].y - start.y) / palmLength;
+    const { swipeDistance } = this.options;
+
+    if (Math.abs(dx) > swipeDistance && Math.abs(dx) > 2 * Math.abs(dy)) return 'space';
+    if (dy > swipeDistance && dy > 2 * Math.abs(dx)) return 'clear';
+    if (-dy > swipeDistance && -dy > 2 * Math.abs(dx)) return 'toggleMode';
+    return null;
+  }
+}
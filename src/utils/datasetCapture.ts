@@ -0,0 +1,90 @@
+import { DetectedHand } from './handLandmarks';
+import { rasterToPng, rasterizeHands } from './handRasterizer';
+import { prepareHands } from './signLanguageModel';
+import { AlphabetPack } from './alphabets';
+
+// Paces a capture run: a countdown to get the sign in place, then one sample per interval
+// while a complete signing hand is visible, until the target count is reached
+
+export interface CaptureOptions {
+  sampleCount: number;
+  countdownMs: number;
+  // Minimum time between samples, so consecutive samples aren't near-identical frames
+  intervalMs: number;
+}
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = {
+  sampleCount: 30,
+  countdownMs: 3000,
+  intervalMs: 100
+};
+
+export type CapturePhase = 'idle' | 'countdown' | 'capturing' | 'done';
+
+export interface CaptureState {
+  phase: CapturePhase;
+  captured: number;
+  total: number;
+  // Until capturing starts, during the countdown
+  countdownMs: number;
+}
+
+export class CaptureSession {
+  private options: CaptureOptions;
+  private phase: CapturePhase = 'idle';
+  private startedAt = 0;
+  private lastSampleAt = -Infinity;
+  private captured = 0;
+
+  constructor(options: Partial<CaptureOptions> = {}) {
+    this.options = { ...DEFAULT_CAPTURE_OPTIONS, ...options };
+  }
+
+  start(timestamp: number): void {
+    this.phase = 'countdown';
+    this.startedAt = timestamp;
+    this.lastSampleAt = -Infinity;
+    this.captured = 0;
+  }
+
+  cancel(): void {
+    this.phase = 'idle';
+  }
+
+  // Call with every detection frame; true when this frame should be saved as a sample
+  update(hands: DetectedHand[], timestamp: number): boolean {
+    this.advance(timestamp);
+    if (this.phase !== 'capturing') return false;
+
+    const hasHand = hands.length > 0 && hands[0].landmarks.length === 21;
+    if (!hasHand || timestamp - this.lastSampleAt < this.options.intervalMs) return false;
+
+    this.lastSampleAt = timestamp;
+    this.captured++;
+    if (this.captured >= this.options.sampleCount) this.phase = 'done';
+    return true;
+  }
+
+  getState(timestamp: number): CaptureState {
+    this.advance(timestamp);
+    return {
+      phase: this.phase,
+      captured: this.captured,
+      total: this.options.sampleCount,
+      countdownMs: this.phase === 'countdown' ? this.startedAt + this.options.countdownMs - timestamp : 0
+    };
+  }
+
+  private advance(timestamp: number): void {
+    if (this.phase === 'countdown' && timestamp >= this.startedAt + this.options.countdownMs) {
+      this.phase = 'capturing';
+    }
+  }
+}
+
+// The image the alphabet's default (skeleton image) model would be shown for these hands
+export const renderModelInput = async (alphabet: AlphabetPack, hands: DetectedHand[]): Promise<Blob> => {
+  const { inputShape, preprocessing } = alphabet.model;
+  const [height, width] = inputShape;
+  return rasterToPng(rasterizeHands(prepareHands(hands, preprocessing.twoHanded), width, height));
+};
@@ -0,0 +1,123 @@
+import { Zippable, zipSync } from 'fflate';
+import { DetectedHand } from './handLandmarks';
+import { LazyDatabase, request, transactionDone } from './indexedDb';
+import { isHand } from './landmarkRecording';
+
+// Training samples captured in the app, kept in IndexedDB so they survive reloads and can hold
+// rendered images. Exported as a zip laid out for retraining: dataset.json with every sample's
+// landmarks and metadata, plus images/<letter>/<id>.png when images were captured
+
+export interface DatasetSample {
+  id: string;
+  // Target letter the signer was asked to hold
+  letter: string;
+  alphabetId: string;
+  // Smoothed hands as the recognizer saw them, signing hand first, in reference-frame pixels
+  hands: DetectedHand[];
+  capturedAt: string;
+  // Who signed and in which capture session
+  signer: string;
+  sessionId: string;
+  // Rendered model input (PNG), when image capture was on
+  image?: Blob;
+}
+
+export interface DatasetExport {
+  format: 'signspeak-dataset';
+  version: 1;
+  exportedAt: string;
+  // Samples without their image blobs; `image` is the path inside the zip
+  samples: (Omit<DatasetSample, 'image'> & { image?: string })[];
+}
+
+const STORE = 'samples';
+
+export const imagePath = (sample: Pick<DatasetSample, 'id' | 'letter'>): string => `images/${sample.letter}/${sample.id}.png`;
+
+export class DatasetStore {
+  private database = new LazyDatabase('signspeak-dataset', 1, db => {
+    db.createObjectStore(STORE, { keyPath: 'id' });
+  });
+
+  async add(samples: DatasetSample[]): Promise<void> {
+    const db = await this.database.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    samples.forEach(sample => store.put(sample));
+    await transactionDone(tx);
+  }
+
+  // Oldest first
+  async list(): Promise<DatasetSample[]> {
+    const db = await this.database.open();
+    const samples = await request(db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<DatasetSample[]>);
+    return samples.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    const db = await this.database.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.database.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+  }
+}
+
+export const datasetToJson = (samples: DatasetSample[]): DatasetExport => ({
+  format: 'signspeak-dataset',
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  samples: samples.map(({ image, ...sample }) => ({
+    ...sample,
+    ...(image ? { image: imagePath(sample) } : {})
+  }))
+});
+
+export const datasetToZip = async (samples: DatasetSample[]): Promise<Blob> => {
+  const files: Zippable = {
+    'dataset.json': new TextEncoder().encode(JSON.stringify(datasetToJson(samples), null, 2))
+  };
+  for (const sample of samples) {
+    if (sample.image) {
+      // PNGs are already compressed; level 0 just stores them
+      files[imagePath(sample)] = [new Uint8Array(await sample.image.arrayBuffer()), { level: 0 }];
+    }
+  }
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+// Parse and check an exported dataset.json
+export const parseDatasetExport = (text: string): DatasetExport => {
+  let parsed: Partial<DatasetExport>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Dataset is not valid JSON');
+  }
+
+  if (parsed.format !== 'signspeak-dataset') {
+    throw new Error('Not a dataset export');
+  }
+  if (parsed.version !== 1) {
+    throw new Error(`Unsupported dataset version ${parsed.version}; this build reads version 1`);
+  }
+  const { samples } = parsed;
+  if (!Array.isArray(samples)) {
+    throw new Error('Dataset has no samples');
+  }
+  samples.forEach((sample, index) => {
+    const valid = typeof sample?.id === 'string' && typeof sample.letter === 'string' &&
+      Array.isArray(sample.hands) && sample.hands.every(isHand);
+    if (!valid) {
+      throw new Error(`Dataset sample ${index} is malformed`);
+    }
+  });
+  return parsed as DatasetExport;
+};
@@ -0,0 +1,52 @@
+import { HandLandmark, normalizeHandGeometry } from './handLandmarks';
+import { RuleCondition, RuleSet, runRules, scoreLetters } from './ruleEngine';
+import { extended, folded, thumbIn, thumbOut, thumbTouches } from './shapeConditions';
+
+// ASL numbers 0-9 are recognized from landmarks alone with the same rule engine as letters.
+// Every condition is a distance, so the rules don't depend on hand orientation or side
+
+export type RecognitionMode = 'letters' | 'digits';
+
+export interface DigitPrediction {
+  digit: string;
+  confidence: number;
+}
+
+const digitRule = (digit: string, conditions: RuleCondition[]) => ({
+  id: `digit-${digit}`,
+  group: 0,
+  letter: digit,
+  conditions
+});
+
+export const DIGIT_RULES: RuleSet = {
+  version: 1,
+  marginScale: 0.1,
+  groupRules: [],
+  // Thumb-touch shapes first: 6 looks like W, and 9 like F, apart from the thumb
+  letterRules: [
+    digitRule('6', [thumbTouches('pinky'), extended('index'), extended('middle'), extended('ring')]),
+    digitRule('7', [thumbTouches('ring'), extended('index'), extended('middle'), extended('pinky')]),
+    digitRule('8', [thumbTouches('middle'), extended('index'), extended('ring'), extended('pinky')]),
+    digitRule('9', [thumbTouches('index'), extended('middle'), extended('ring'), extended('pinky')]),
+    digitRule('0', [thumbTouches('index'), thumbTouches('middle')]),
+    digitRule('5', [extended('index'), extended('middle'), extended('ring'), extended('pinky'), thumbOut]),
+    digitRule('4', [extended('index'), extended('middle'), extended('ring'), extended('pinky'), thumbIn]),
+    digitRule('3', [extended('index'), extended('middle'), folded('ring'), folded('pinky'), thumbOut]),
+    digitRule('2', [extended('index'), extended('middle'), folded('ring'), folded('pinky'), thumbIn]),
+    digitRule('1', [extended('index'), folded('middle'), folded('ring'), folded('pinky'), thumbIn])
+  ],
+  // No digit when nothing matches
+  defaultLetters: ['']
+};
+
+export const classifyDigit = (landmarks: HandLandmark[]): DigitPrediction | null => {
+  if (landmarks.length !== 21) return null;
+
+  const pts = normalizeHandGeometry(landmarks);
+  const { letter } = runRules(DIGIT_RULES, [0, 0], pts);
+  if (!letter) return null;
+
+  const confidence = scoreLetters(DIGIT_RULES, 0, pts).find(candidate => candidate.letter === letter)?.score ?? 0;
+  return { digit: letter, confidence };
+};
@@ -0,0 +1,12 @@
+// Save generated content (exports, transcripts, datasets) through the browser's download
+export const downloadBlob = (fileName: string, blob: Blob): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (fileName: string, content: string, type: string): void =>
+  downloadBlob(fileName, new Blob([content], { type }));
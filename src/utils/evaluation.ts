@@ -0,0 +1,290 @@
+import { AlphabetPack } from './alphabets';
+import { ModelManifest } from './modelRegistry';
+import { SignClassifier } from './signLanguageModel';
+import { LabeledSample } from './calibration';
+
+// Offline accuracy of the full recognizer (model + rule table) on a labeled landmark dataset.
+// Reports are plain JSON so one can be kept as a baseline: change a rule threshold, evaluate
+// again and diff, to see which letters and samples it fixed or broke
+
+export const REPORT_FORMAT = 'signspeak-evaluation';
+export const REPORT_VERSION = 1;
+
+export interface EvaluationSample extends LabeledSample {
+  // Stable id, so baseline and current results can be matched per sample
+  id: string;
+}
+
+export interface LetterMetrics {
+  letter: string;
+  // Samples of this letter
+  support: number;
+  // Times this letter was predicted
+  predicted: number;
+  correct: number;
+  // null when undefined (nothing predicted / no samples)
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface RuleHits {
+  id: string;
+  kind: 'group' | 'letter';
+  // Samples where the rule was checked (its predicted pair or group came up)
+  evaluated: number;
+  fired: number;
+  // Fired and the final letter was right
+  firedCorrect: number;
+}
+
+export interface SampleResult {
+  id: string;
+  expected: string;
+  // '' when nothing was recognized
+  predicted: string;
+}
+
+export interface EvaluationReport {
+  format: typeof REPORT_FORMAT;
+  version: typeof REPORT_VERSION;
+  createdAt: string;
+  alphabetId: string;
+  modelId: string;
+  rulesVersion: number;
+  // Signer whose personalization head was active, if any
+  personalizedFor: string | null;
+  samples: number;
+  accuracy: number;
+  // Share of samples whose letter is in the model's top class, before and after group rules
+  modelGroupAccuracy: number;
+  groupAccuracy: number;
+  // Letters of each model class, e.g. 'AEMNST'
+  groups: string[];
+  // [expected][predicted]; the extra last column counts samples with no prediction
+  groupConfusion: number[][];
+  letters: string[];
+  letterConfusion: number[][];
+  perLetter: LetterMetrics[];
+  rules: RuleHits[];
+  results: SampleResult[];
+}
+
+export interface EvaluationProgress {
+  done: number;
+  total: number;
+}
+
+const ratio = (count: number, total: number): number | null => (total > 0 ? count / total : null);
+
+const square = (size: number, extraColumns: number): number[][] =>
+  Array.from({ length: size }, () => new Array<number>(size + extraColumns).fill(0));
+
+// Run every sample through a loaded classifier with rule tracing. Samples whose letter the
+// model can't output are left out; see the returned report's `samples`
+export const evaluateClassifier = async (
+  classifier: SignClassifier,
+  alphabet: AlphabetPack,
+  manifest: ModelManifest,
+  samples: EvaluationSample[],
+  personalizedFor: string | null = null,
+  onProgress?: (progress: EvaluationProgress) => void,
+  signal?: AbortSignal
+): Promise<EvaluationReport> => {
+  const { rules } = alphabet;
+  const groups = manifest.classes.map(letters => letters.join(''));
+  const letters = Array.from(new Set(manifest.classes.flat())).sort();
+  const groupOf = (letter: string) => manifest.classes.findIndex(classLetters => classLetters.includes(letter));
+  const evaluated = samples.filter(sample => letters.includes(sample.label));
+
+  const groupConfusion = square(groups.length, 1);
+  const letterConfusion = square(letters.length, 1);
+  const ruleHits = new Map<string, RuleHits>([
+    ...rules.groupRules.map(rule => [rule.id, { id: rule.id, kind: 'group', evaluated: 0, fired: 0, firedCorrect: 0 }] as const),
+    ...rules.letterRules.map(rule => [rule.id, { id: rule.id, kind: 'letter', evaluated: 0, fired: 0, firedCorrect: 0 }] as const)
+  ]);
+  const results: SampleResult[] = [];
+  let correct = 0;
+  let modelGroupCorrect = 0;
+  let groupCorrect = 0;
+
+  for (const [index, sample] of evaluated.entries()) {
+    if (signal?.aborted) {
+      throw new Error('Evaluation cancelled');
+    }
+
+    const prediction = await classifier.predictHands(sample.hands, { trace: true });
+    const { trace } = prediction;
+    const expectedGroup = groupOf(sample.label);
+    const predictedLetter = letters.includes(prediction.character) ? prediction.character : '';
+    const isCorrect = predictedLetter === sample.label;
+
+    if (trace) {
+      if (trace.predictedPair[0] === expectedGroup) modelGroupCorrect++;
+      if (trace.group === expectedGroup) groupCorrect++;
+      groupConfusion[expectedGroup][trace.group]++;
+      [...trace.groupRules, ...trace.letterRules].forEach(evaluation => {
+        const hits = ruleHits.get(evaluation.id);
+        if (!hits) return;
+        hits.evaluated++;
+        if (evaluation.matched) {
+          hits.fired++;
+          if (isCorrect) hits.firedCorrect++;
+        }
+      });
+    } else {
+      groupConfusion[expectedGroup][groups.length]++;
+    }
+
+    const column = predictedLetter ? letters.indexOf(predictedLetter) : letters.length;
+    letterConfusion[letters.indexOf(sample.label)][column]++;
+    if (isCorrect) correct++;
+    results.push({ id: sample.id, expected: sample.label, predicted: predictedLetter });
+    onProgress?.({ done: index + 1, total: evaluated.length });
+  }
+
+  const perLetter = letters.map((letter, row) => {
+    const support = letterConfusion[row].reduce((sum, count) => sum + count, 0);
+    const predicted = letterConfusion.reduce((sum, counts) => sum + counts[row], 0);
+    const hits = letterConfusion[row][row];
+    return { letter, support, predicted, correct: hits, precision: ratio(hits, predicted), recall: ratio(hits, support) };
+  });
+
+  return {
+    format: REPORT_FORMAT,
+    version: REPORT_VERSION,
+    createdAt: new Date().toISOString(),
+    alphabetId: alphabet.id,
+    modelId: manifest.id,
+    rulesVersion: rules.version,
+    personalizedFor,
+    samples: evaluated.length,
+    accuracy: ratio(correct, evaluated.length) ?? 0,
+    modelGroupAccuracy: ratio(modelGroupCorrect, evaluated.length) ?? 0,
+    groupAccuracy: ratio(groupCorrect, evaluated.length) ?? 0,
+    groups,
+    groupConfusion,
+    letters,
+    letterConfusion,
+    perLetter,
+    rules: Array.from(ruleHits.values()),
+    results
+  };
+};
+
+export interface MetricChange {
+  baseline: number | null;
+  current: number | null;
+}
+
+export interface ReportDiff {
+  // Why the two reports may not be comparable
+  warnings: string[];
+  accuracy: MetricChange;
+  modelGroupAccuracy: MetricChange;
+  groupAccuracy: MetricChange;
+  // Only letters and rules whose numbers changed
+  letters: { letter: string; precision: MetricChange; recall: MetricChange }[];
+  rules: { id: string; fired: MetricChange; firedCorrect: MetricChange }[];
+  // Samples in both reports that are now right (fixed) or now wrong (broken)
+  fixed: SampleResult[];
+  broken: SampleResult[];
+}
+
+const changed = (change: MetricChange) => change.baseline !== change.current;
+
+export const diffReports = (baseline: EvaluationReport, current: EvaluationReport): ReportDiff => {
+  const warnings: string[] = [];
+  if (baseline.modelId !== current.modelId) {
+    warnings.push(`Baseline used ${baseline.modelId}, this run ${current.modelId}`);
+  }
+  if (baseline.personalizedFor !== current.personalizedFor) {
+    warnings.push('Personalization differs between the runs');
+  }
+
+  const baselineResults = new Map(baseline.results.map(result => [result.id, result]));
+  const shared = current.results.filter(result => baselineResults.has(result.id));
+  if (shared.length !== baseline.results.length || shared.length !== current.results.length) {
+    warnings.push(`Only ${shared.length} samples are in both runs`);
+  }
+
+  const baselineLetters = new Map(baseline.perLetter.map(metrics => [metrics.letter, metrics]));
+  const letters = current.perLetter
+    .map(metrics => {
+      const before = baselineLetters.get(metrics.letter);
+      return {
+        letter: metrics.letter,
+        precision: { baseline: before?.precision ?? null, current: metrics.precision },
+        recall: { baseline: before?.recall ?? null, current: metrics.recall }
+      };
+    })
+    .filter(change => changed(change.precision) || changed(change.recall));
+
+  const baselineRules = new Map(baseline.rules.map(hits => [hits.id, hits]));
+  const rules = current.rules
+    .map(hits => {
+      const before = baselineRules.get(hits.id);
+      return {
+        id: hits.id,
+        fired: { baseline: before?.fired ?? null, current: hits.fired },
+        firedCorrect: { baseline: before?.firedCorrect ?? null, current: hits.firedCorrect }
+      };
+    })
+    .filter(change => changed(change.fired) || changed(change.firedCorrect));
+
+  const wasCorrect = (result: SampleResult) => {
+    const before = baselineResults.get(result.id);
+    return before !== undefined && before.predicted === before.expected;
+  };
+
+  return {
+    warnings,
+    accuracy: { baseline: baseline.accuracy, current: current.accuracy },
+    modelGroupAccuracy: { baseline: baseline.modelGroupAccuracy, current: current.modelGroupAccuracy },
+    groupAccuracy: { baseline: baseline.groupAccuracy, current: current.groupAccuracy },
+    letters,
+    rules,
+    fixed: shared.filter(result => result.predicted === result.expected && !wasCorrect(result)),
+    broken: shared.filter(result => result.predicted !== result.expected && wasCorrect(result))
+  };
+};
+
+// Parse and check a saved report
+export const parseEvaluationReport = (text: string): EvaluationReport => {
+  let parsed: Partial<EvaluationReport>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Report is not valid JSON');
+  }
+
+  if (parsed.format !== REPORT_FORMAT) {
+    throw new Error('Not an evaluation report');
+  }
+  if (parsed.version !== REPORT_VERSION) {
+    throw new Error(`Unsupported report version ${parsed.version}; this build reads version ${REPORT_VERSION}`);
+  }
+  if (!Array.isArray(parsed.results) || !Array.isArray(parsed.perLetter) || !Array.isArray(parsed.rules)) {
+    throw new Error('Report is missing its results');
+  }
+  return parsed as EvaluationReport;
+};
+
+const BASELINE_KEY = 'signspeak.evaluationBaseline';
+
+export const loadBaseline = (): EvaluationReport | null => {
+  try {
+    const stored = localStorage.getItem(BASELINE_KEY);
+    return stored ? parseEvaluationReport(stored) : null;
+  } catch (error) {
+    console.warn('⚠️ Could not read the baseline report:', error);
+    return null;
+  }
+};
+
+export const saveBaseline = (report: EvaluationReport): void => {
+  try {
+    localStorage.setItem(BASELINE_KEY, JSON.stringify(report));
+  } catch (error) {
+    console.warn('⚠️ Could not save the baseline report:', error);
+  }
+};
@@ -0,0 +1,64 @@
+import { DetectedHand, normalizeHandGeometry } from './handLandmarks';
+import { RuleSet, runRules, scoreLetters } from './ruleEngine';
+import { EMPTY_PREDICTION, PredictOptions, SignClassifier, SignPrediction, prepareHands } from './signLanguageModel';
+import { CalibrationWeights } from './calibration';
+
+// Degraded recognizer for when the model fails to load: the alphabet's fallback rules pick a
+// letter from the landmarks alone. It covers fewer letters and is less accurate than a model,
+// so the UI labels it. Also a baseline for compareClassifiers
+export class RuleOnlyClassifier implements SignClassifier {
+  readonly modelId: string;
+
+  constructor(alphabetId: string, private rules: RuleSet) {
+    this.modelId = `${alphabetId}-rules-only`;
+  }
+
+  // Nothing to load
+  async loadModel(): Promise<void> {}
+
+  isModelLoaded(): boolean {
+    return true;
+  }
+
+  dispose(): void {}
+
+  // No tensors, so no backend to choose
+  async benchmark(): Promise<number> {
+    return 0;
+  }
+
+  // No weights to fine-tune
+  async personalize(): Promise<CalibrationWeights> {
+    throw new Error('Rule-only recognition has no model to personalize');
+  }
+
+  setCalibration(weights: CalibrationWeights | null): void {
+    if (weights) {
+      throw new Error('Rule-only recognition has no model to personalize');
+    }
+  }
+
+  async predictHands(hands: DetectedHand[], options: PredictOptions = {}): Promise<SignPrediction> {
+    return this.classify(hands, options);
+  }
+
+  // Synchronous, cheap enough to run on the UI thread every frame
+  classify(hands: DetectedHand[], options: PredictOptions = {}): SignPrediction {
+    const [landmarks] = prepareHands(hands, false, options.handedness);
+    if (!landmarks) return EMPTY_PREDICTION;
+
+    const pts = normalizeHandGeometry(landmarks);
+    const outcome = runRules(this.rules, [0, 0], pts);
+    const letters = scoreLetters(this.rules, 0, pts).filter(candidate => candidate.letter !== '');
+    const confidence = letters.find(candidate => candidate.letter === outcome.letter)?.score ?? 0;
+
+    return {
+      character: outcome.letter,
+      confidence,
+      groupConfidence: 1,
+      distribution: [1],
+      topGroups: [{ group: 0, probability: 1, letters }],
+      ...(options.trace ? { trace: outcome.trace } : {})
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { DetectedHand, DominantHandSetting, orderHands } from './handLandmarks';
+import { AlphabetPack } from './alphabets';
+import { SignPrediction } from './signLanguageModel';
+import { HandSmoother, OneEuroOptions } from './oneEuroFilter';
+import { MOTION_HOLD_MS, MotionRecognizer } from './motionRecognizer';
+import { RecognitionMode, classifyDigit } from './digitRecognizer';
+import { CommandGestureRecognizer, CommandToggles, GestureCommand } from './commandGestures';
+
+// Everything between hand landmarks and the letter on screen: smoothing, the signing hand
+// first, command gestures, digits, motion letters and how predictions replace the letter.
+// Live detection, deterministic replays and video transcription all run frames through it,
+// so they can't drift apart. Timers run on the frame timestamps, never the wall clock; the
+// classifier is called by the owner, which decides how often and whether to wait for it
+
+export interface FramePipelineOptions {
+  alphabet: AlphabetPack;
+  mode: RecognitionMode;
+  dominantHand: DominantHandSetting;
+  commands: CommandToggles;
+  // Landmark jitter filter; null passes raw landmarks through
+  smoothing: OneEuroOptions | null;
+}
+
+export interface RecognizedLetter {
+  // Empty when nothing is recognized
+  letter: string;
+  confidence: number;
+  // The model's answer the letter came from; null for digits and motion letters
+  prediction: SignPrediction | null;
+}
+
+export interface FrameStep {
+  // Smoothed, signing hand first; empty when no hand is in view
+  hands: DetectedHand[];
+  command: GestureCommand | null;
+  // Set when this frame replaced the letter on screen without the classifier
+  letter: RecognizedLetter | null;
+  // Whether the classifier should see this frame: letters mode, a hand in view and no
+  // motion letter being held
+  predict: boolean;
+}
+
+export type FramePredictor = (hands: DetectedHand[]) => Promise<SignPrediction | null>;
+
+export const NO_LETTER: RecognizedLetter = { letter: '', confidence: 0, prediction: null };
+
+// Below this a digit or prediction clears the letter instead of showing it
+const MIN_CONFIDENCE = 0.3;
+
+export class FramePipeline {
+  private smoother: HandSmoother;
+  private motion = new MotionRecognizer();
+  private commands = new CommandGestureRecognizer();
+  private motionHoldUntil = 0;
+  // Like the live display, a letter stays until something replaces it
+  private current: RecognizedLetter = NO_LETTER;
+
+  constructor(private options: FramePipelineOptions) {
+    this.smoother = new HandSmoother(options.smoothing ?? undefined);
+  }
+
+  setOptions(options: FramePipelineOptions): void {
+    this.options = options;
+    if (options.smoothing) {
+      this.smoother.setOptions(options.smoothing);
+    } else {
+      this.smoother.reset();
+    }
+  }
+
+  get letter(): RecognizedLetter {
+    return this.current;
+  }
+
+  // Hands in reference-frame pixels, as toReferenceFrame returns them
+  step(rawHands: DetectedHand[], timestamp: number): FrameStep {
+    if (rawHands.length === 0) {
+      this.reset();
+      return { hands: [], command: null, letter: NO_LETTER, predict: false };
+    }
+
+    // Filter jitter before anything looks at the landmarks, then put the signing hand first
+    const { smoothing, dominantHand } = this.options;
+    const hands = orderHands(smoothing ? this.smoother.smooth(rawHands, timestamp) : rawHands, dominantHand);
+    // Commands, digits and motion letters are one-handed and follow the signing hand
+    const { landmarks } = hands[0];
+
+    // Command gestures edit the sentence instead of typing
+    const command = this.commands.addFrame(landmarks, timestamp, this.options.commands);
+
+    // Digits are classified from landmarks alone, no model round-trip needed
+    if (this.options.mode === 'digits') {
+      const digit = classifyDigit(landmarks);
+      this.current = digit && digit.confidence > MIN_CONFIDENCE
+        ? { letter: digit.digit, confidence: digit.confidence, prediction: null }
+        : NO_LETTER;
+      return { hands, command, letter: this.current, predict: false };
+    }
+
+    // Moving letters are recognized from the fingertip trajectory and override the static pose
+    let letter: RecognizedLetter | null = null;
+    const detection = this.motion.addFrame(landmarks, timestamp);
+    if (detection && this.options.alphabet.motionLetters.includes(detection.letter)) {
+      this.motionHoldUntil = timestamp + MOTION_HOLD_MS;
+      letter = { letter: detection.letter, confidence: detection.confidence, prediction: null };
+      this.current = letter;
+    }
+
+    return { hands, command, letter, predict: timestamp >= this.motionHoldUntil };
+  }
+
+  // The classifier's answer for the frame at timestamp. Null when it was discarded because a
+  // motion letter was recognized at or after that frame and is still held
+  applyPrediction(prediction: SignPrediction, timestamp: number): RecognizedLetter | null {
+    if (timestamp < this.motionHoldUntil) return null;
+
+    this.current = prediction.character.trim() !== '' && prediction.confidence > MIN_CONFIDENCE
+      ? { letter: prediction.character, confidence: prediction.confidence, prediction }
+      : NO_LETTER;
+    return this.current;
+  }
+
+  // A step that waits for the classifier when the frame should be predicted, for callers
+  // that analyse every frame in order rather than keeping up with a live source
+  async process(rawHands: DetectedHand[], timestamp: number, predict: FramePredictor): Promise<FrameStep> {
+    const step = this.step(rawHands, timestamp);
+    if (step.predict) {
+      const prediction = await predict(step.hands);
+      if (prediction) this.applyPrediction(prediction, timestamp);
+    }
+    return step;
+  }
+
+  // The hand left the view: gestures and filters start over
+  reset(): void {
+    this.current = NO_LETTER;
+    this.smoother.reset();
+    this.motion.reset();
+    this.commands.reset();
+    this.motionHoldUntil = 0;
+  }
+}
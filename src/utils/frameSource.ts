@@ -0,0 +1,308 @@
+import { DetectedHand, FrameSize } from './handLandmarks';
+import { LandmarkRecording } from './landmarkRecording';
+
+// Where detection frames come from. Every source owns the element that shows the current frame;
+// for camera and file sources the same element is handed to MediaPipe, so what is drawn is what
+// gets recognized. Replays carry recorded landmarks and skip MediaPipe
+
+export type FrameSourceKind = 'webcam' | 'video-file' | 'image-sequence' | 'replay';
+
+export type SourceFrame =
+  | { type: 'image'; image: HTMLVideoElement | HTMLImageElement; size: FrameSize }
+  // Hands as MediaPipe reported them, at the recorded time
+  | { type: 'landmarks'; hands: DetectedHand[]; size: FrameSize; timestamp: number };
+
+// Live sources don't wait for the handler and drop frames while it is busy; file sources wait,
+// so no image is skipped
+export type FrameHandler = (frame: SourceFrame) => Promise<void>;
+
+export interface FrameSource {
+  readonly kind: FrameSourceKind;
+  // Shown mirrored, like a mirror, rather than as recorded
+  readonly mirrored: boolean;
+  readonly element: HTMLElement;
+  // Short description for the UI (device or file name)
+  readonly label: string;
+  start(onFrame: FrameHandler): Promise<void>;
+  // Pause delivering frames; start resumes
+  stop(): void;
+  // Release the camera or file URLs; the source can't be started again
+  dispose(): void;
+}
+
+export const CAMERA_RESOLUTIONS: FrameSize[] = [
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+  { width: 1920, height: 1080 }
+];
+
+export const DEFAULT_CAMERA_RESOLUTION = CAMERA_RESOLUTIONS[0];
+
+// Images of a sequence are shown this long (10 fps) unless processing takes longer
+const IMAGE_INTERVAL_MS = 100;
+
+const createVideoElement = (): HTMLVideoElement => {
+  const video = document.createElement('video');
+  video.playsInline = true;
+  video.muted = true;
+  return video;
+};
+
+const videoFrame = (video: HTMLVideoElement): SourceFrame => ({
+  type: 'image',
+  image: video,
+  size: { width: video.videoWidth, height: video.videoHeight }
+});
+
+// Call onFrame for each new video frame, without waiting for it. Returns a cancel function
+const runVideoFrames = (video: HTMLVideoElement, onFrame: FrameHandler): (() => void) => {
+  let isRunning = true;
+
+  const schedule = () => {
+    if (!isRunning) return;
+    if ('requestVideoFrameCallback' in video) {
+      video.requestVideoFrameCallback(deliver);
+    } else {
+      requestAnimationFrame(deliver);
+    }
+  };
+
+  const deliver = () => {
+    if (!isRunning) return;
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0) {
+      onFrame(videoFrame(video)).catch(error => console.error('❌ Frame handler failed:', error));
+    }
+    schedule();
+  };
+
+  schedule();
+  return () => {
+    isRunning = false;
+  };
+};
+
+// Cameras the user can pick from. Labels are empty until camera permission has been granted
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+export class WebcamSource implements FrameSource {
+  readonly kind = 'webcam';
+  readonly mirrored = true;
+  readonly element = createVideoElement();
+  private stream: MediaStream | null = null;
+  private cancelFrames: (() => void) | null = null;
+  // Bumped by stop so a start still waiting for the camera gives it back
+  private run = 0;
+
+  // Without a device id the front-facing camera is preferred. The resolution is a request;
+  // frames report the size the camera actually delivers
+  constructor(
+    private deviceId: string = '',
+    private resolution: FrameSize = DEFAULT_CAMERA_RESOLUTION
+  ) {}
+
+  get label(): string {
+    return this.stream?.getVideoTracks()[0]?.label || 'Camera';
+  }
+
+  async start(onFrame: FrameHandler): Promise<void> {
+    this.stop();
+    const run = this.run;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: {
+        width: { ideal: this.resolution.width },
+        height: { ideal: this.resolution.height },
+        ...(this.deviceId ? { deviceId: { exact: this.deviceId } } : { facingMode: 'user' })
+      }
+    });
+    if (run !== this.run) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    this.stream = stream;
+    this.element.srcObject = stream;
+    await this.element.play();
+    if (run !== this.run) return;
+    this.cancelFrames = runVideoFrames(this.element, onFrame);
+  }
+
+  // The camera is released while paused so its light goes off
+  stop(): void {
+    this.run++;
+    this.cancelFrames?.();
+    this.cancelFrames = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.element.srcObject = null;
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+}
+
+// Plays a local video file in real time, looping
+export class VideoFileSource implements FrameSource {
+  readonly kind = 'video-file';
+  readonly mirrored = false;
+  readonly element = createVideoElement();
+  readonly label: string;
+  private cancelFrames: (() => void) | null = null;
+  private run = 0;
+
+  constructor(file: File) {
+    this.label = file.name;
+    this.element.loop = true;
+    this.element.src = URL.createObjectURL(file);
+  }
+
+  async start(onFrame: FrameHandler): Promise<void> {
+    this.stop();
+    const run = this.run;
+    await this.element.play();
+    if (run !== this.run) return;
+    this.cancelFrames = runVideoFrames(this.element, onFrame);
+  }
+
+  stop(): void {
+    this.run++;
+    this.cancelFrames?.();
+    this.cancelFrames = null;
+    this.element.pause();
+  }
+
+  dispose(): void {
+    this.stop();
+    URL.revokeObjectURL(this.element.src);
+    this.element.removeAttribute('src');
+  }
+}
+
+// Steps through still images in file-name order, looping. Every image is processed
+export class ImageSequenceSource implements FrameSource {
+  readonly kind = 'image-sequence';
+  readonly mirrored = false;
+  readonly element = document.createElement('img');
+  readonly label: string;
+  private files: File[];
+  private position = 0;
+  // Bumped by stop so a running loop notices it has been superseded
+  private run = 0;
+  private objectUrl: string | null = null;
+
+  constructor(files: File[]) {
+    if (files.length === 0) {
+      throw new Error('An image sequence needs at least one image');
+    }
+    this.files = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    this.label = `${this.files.length} images`;
+  }
+
+  async start(onFrame: FrameHandler): Promise<void> {
+    this.stop();
+    const run = this.run;
+    // Show the first image before returning, so a broken file fails the start
+    await this.showImage(this.position);
+    this.loop(run, onFrame);
+  }
+
+  stop(): void {
+    this.run++;
+  }
+
+  dispose(): void {
+    this.stop();
+    if (this.objectUrl) URL.revokeObjectURL(this.objectUrl);
+    this.objectUrl = null;
+    this.element.removeAttribute('src');
+  }
+
+  private async showImage(index: number): Promise<void> {
+    const previousUrl = this.objectUrl;
+    this.objectUrl = URL.createObjectURL(this.files[index]);
+    this.element.src = this.objectUrl;
+    await this.element.decode();
+    if (previousUrl) URL.revokeObjectURL(previousUrl);
+  }
+
+  private async loop(run: number, onFrame: FrameHandler): Promise<void> {
+    try {
+      while (run === this.run) {
+        const started = performance.now();
+        await onFrame({
+          type: 'image',
+          image: this.element,
+          size: { width: this.element.naturalWidth, height: this.element.naturalHeight }
+        });
+
+        const remaining = IMAGE_INTERVAL_MS - (performance.now() - started);
+        if (remaining > 0) await new Promise(resolve => setTimeout(resolve, remaining));
+        if (run !== this.run) return;
+
+        this.position = (this.position + 1) % this.files.length;
+        await this.showImage(this.position);
+      }
+    } catch (error) {
+      console.error(`❌ Image sequence stopped at ${this.files[this.position].name}:`, error);
+    }
+  }
+}
+
+// Plays a landmark recording back at its recorded pace, once. The element stays blank; the
+// feed's overlay draws the recorded hands
+export class ReplaySource implements FrameSource {
+  readonly kind = 'replay';
+  readonly mirrored: boolean;
+  readonly element = document.createElement('canvas');
+  readonly label: string;
+  private position = 0;
+  private run = 0;
+
+  constructor(private recording: LandmarkRecording, name: string) {
+    this.mirrored = recording.mirrored;
+    this.label = name;
+    const [first] = recording.frames;
+    this.element.width = first.size.width;
+    this.element.height = first.size.height;
+  }
+
+  async start(onFrame: FrameHandler): Promise<void> {
+    this.stop();
+    // Starting after the end plays the recording again
+    if (this.position >= this.recording.frames.length) this.position = 0;
+    this.loop(this.run, onFrame);
+  }
+
+  stop(): void {
+    this.run++;
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+
+  private async loop(run: number, onFrame: FrameHandler): Promise<void> {
+    const { frames } = this.recording;
+    // Frames are timestamped with the recorded times shifted to now, so smoothing and motion
+    // see exactly the recorded intervals however late the timers fire
+    const offset = performance.now() - frames[this.position].t;
+    const clockOffset = Date.now() - frames[this.position].t;
+
+    try {
+      while (run === this.run && this.position < frames.length) {
+        const frame = frames[this.position];
+        const wait = offset + frame.t - performance.now();
+        if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+        if (run !== this.run) return;
+
+        await onFrame({ type: 'landmarks', hands: frame.hands, size: frame.size, timestamp: clockOffset + frame.t });
+        this.position++;
+      }
+    } catch (error) {
+      console.error(`❌ Replay stopped at frame ${this.position}:`, error);
+    }
+  }
+}
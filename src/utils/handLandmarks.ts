@@ -14,11 +14,87 @@ export interface HandLandmark {
   z: number;
 }
 
+// The signer's physical hand (not the side it appears on screen)
+export type Handedness = 'left' | 'right';
+
+// 'auto' trusts MediaPipe's classification, otherwise the user's choice wins
+export type DominantHandSetting = 'auto' | Handedness;
+
+export interface DetectedHand {
+  landmarks: HandLandmark[];
+  handedness: Handedness;
+  // MediaPipe handedness score
+  score: number;
+}
+
+// Pixel size of a camera frame or image
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
 export interface HandDetectionResult {
+  // The signing (dominant) hand, same as hands[0]
   landmarks: HandLandmark[];
   confidence: number;
+  handedness: Handedness;
+  // Up to two hands, signing hand first
+  hands: DetectedHand[];
+  // Reference frame the landmark coordinates refer to (see toReferenceFrame)
+  frameSize: FrameSize;
 }
 
+// Everything after MediaPipe works on landmarks in a reference frame: the camera frame scaled
+// to 480 pixels high, aspect kept. The skeleton image models and the gesture thresholds were
+// built around 640x480 webcams, so a hand at the same distance from a 720p or 1080p camera has
+// to come out the same size. Only the raw recording keeps the frame's own pixels
+export const REFERENCE_FRAME_HEIGHT = 480;
+
+export const referenceFrameSize = (size: FrameSize): FrameSize => ({
+  width: size.height > 0 ? size.width * REFERENCE_FRAME_HEIGHT / size.height : REFERENCE_FRAME_HEIGHT,
+  height: REFERENCE_FRAME_HEIGHT
+});
+
+// Rescale hands in frame pixels to the reference frame
+export const toReferenceFrame = (hands: DetectedHand[], size: FrameSize): DetectedHand[] => {
+  const scale = size.height > 0 ? REFERENCE_FRAME_HEIGHT / size.height : 1;
+  if (scale === 1) return hands;
+
+  return hands.map(hand => ({
+    ...hand,
+    landmarks: hand.landmarks.map(landmark => ({ x: landmark.x * scale, y: landmark.y * scale, z: landmark.z }))
+  }));
+};
+
+// MediaPipe labels hands as if the image were mirrored (selfie view). Camera frames are sent
+// unmirrored, so its 'Left' is the signer's right hand
+export const handednessFromLabel = (mediaPipeLabel: string | undefined): Handedness =>
+  mediaPipeLabel === 'Right' ? 'left' : 'right';
+
+// Put the signing hand first. With a fixed setting a lone hand is taken to be the dominant one,
+// since MediaPipe's label is least reliable exactly when only one hand is visible
+export const orderHands = (hands: DetectedHand[], setting: DominantHandSetting): DetectedHand[] => {
+  const sorted = [...hands].sort((a, b) => b.score - a.score);
+  if (setting === 'auto' || sorted.length === 0) return sorted;
+  if (sorted.length === 1) return [{ ...sorted[0], handedness: setting }];
+
+  const primary = sorted.find(hand => hand.handedness === setting) ?? sorted[0];
+  return [primary, ...sorted.filter(hand => hand !== primary)];
+};
+
+// Classification rules and the CNN expect a right dominant hand. For a left-handed signer all
+// hands are mirrored together around their shared center, so they keep their position on screen
+export const toCanonicalHands = (hands: HandLandmark[][], handedness: Handedness): HandLandmark[][] => {
+  const xs = hands.flat().map(p => p.x);
+  if (handedness === 'right' || xs.length === 0) return hands;
+
+  const mirrorAxis = Math.min(...xs) + Math.max(...xs);
+  return hands.map(landmarks => landmarks.map(landmark => ({ ...landmark, x: mirrorAxis - landmark.x })));
+};
+
+export const toCanonicalHand = (landmarks: HandLandmark[], handedness: Handedness): HandLandmark[] =>
+  toCanonicalHands([landmarks], handedness)[0];
+
 // Calculate distance between two landmarks
 export const calculateDistance = (point1: HandLandmark, point2: HandLandmark): number => {
   return Math.sqrt(
@@ -34,4 +110,24 @@ export const normalizeLandmarks = (landmarks: HandLandmark[], width: number, hei
     y: (landmark.y * height),
     z: landmark.z
   }));
-};
\ No newline at end of file
+};
+
+// Wrist (0) to middle finger MCP (9): stable across poses, used as the unit of hand size
+export const PALM_BASE = 0;
+export const PALM_TIP = 9;
+
+// Translate the wrist to the origin and scale so the palm length is 1. Rule thresholds are
+// expressed in these units so they don't depend on how far the signer is from the camera
+export const normalizeHandGeometry = (landmarks: HandLandmark[]): HandLandmark[] => {
+  if (landmarks.length <= PALM_TIP) return landmarks;
+
+  const origin = landmarks[PALM_BASE];
+  const palmLength = calculateDistance(origin, landmarks[PALM_TIP]);
+  if (palmLength === 0) return landmarks;
+
+  return landmarks.map(landmark => ({
+    x: (landmark.x - origin.x) / palmLength,
+    y: (landmark.y - origin.y) / palmLength,
+    z: landmark.z
+  }));
+};
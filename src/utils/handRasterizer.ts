@@ -0,0 +1,174 @@
+import { HandLandmark } from './handLandmarks';
+
+// Skeleton drawn into the model input image (matches the Python training code,
+// which differs slightly from the MediaPipe HAND_CONNECTIONS used for overlays)
+export const MODEL_HAND_CONNECTIONS = [
+  // Thumb (0-4)
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  // Index finger (5-8)
+  [5, 6], [6, 7], [7, 8],
+  // Middle finger (9-12)
+  [9, 10], [10, 11], [11, 12],
+  // Ring finger (13-16)
+  [13, 14], [14, 15], [15, 16],
+  // Pinky (17-20)
+  [17, 18], [18, 19], [19, 20],
+  // Palm connections
+  [5, 9], [9, 13], [13, 17],
+  // Wrist connections
+  [0, 5], [0, 17]
+];
+
+type RGB = [number, number, number];
+
+const WHITE: RGB = [255, 255, 255];
+const LINE_COLOR: RGB = [0, 255, 0]; // Green lines
+const POINT_COLOR: RGB = [0, 0, 255]; // Blue circles
+const LINE_WIDTH = 3;
+
+// Packed RGB image, 3 bytes per pixel, row-major
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+// Blend a color into one pixel with the given coverage (source-over, like canvas)
+const blendPixel = (image: RasterImage, px: number, py: number, color: RGB, coverage: number) => {
+  if (coverage <= 0) return;
+  const offset = (py * image.width + px) * 3;
+  for (let c = 0; c < 3; c++) {
+    const current = image.data[offset + c];
+    image.data[offset + c] = Math.round(current + (color[c] - current) * coverage);
+  }
+};
+
+// Stroke a single segment with butt caps. Coverage is estimated analytically from the
+// distance of each pixel center to the segment, which reproduces canvas anti-aliasing
+const strokeSegment = (image: RasterImage, from: HandLandmark, to: HandLandmark, width: number, color: RGB) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  if (length === 0) return;
+
+  const ux = dx / length;
+  const uy = dy / length;
+  const halfWidth = width / 2;
+
+  const minX = Math.max(0, Math.floor(Math.min(from.x, to.x) - halfWidth - 1));
+  const maxX = Math.min(image.width - 1, Math.ceil(Math.max(from.x, to.x) + halfWidth + 1));
+  const minY = Math.max(0, Math.floor(Math.min(from.y, to.y) - halfWidth - 1));
+  const maxY = Math.min(image.height - 1, Math.ceil(Math.max(from.y, to.y) + halfWidth + 1));
+
+  for (let py = minY; py <= maxY; py++) {
+    for (let px = minX; px <= maxX; px++) {
+      const rx = px + 0.5 - from.x;
+      const ry = py + 0.5 - from.y;
+      const along = rx * ux + ry * uy;
+      const across = Math.abs(rx * uy - ry * ux);
+
+      const sideCoverage = clamp01(halfWidth + 0.5 - across);
+      const capCoverage = clamp01(Math.min(along, length - along) + 0.5);
+      blendPixel(image, px, py, color, sideCoverage * capCoverage);
+    }
+  }
+};
+
+// Fill a circle, anti-aliased the same way as strokeSegment
+const fillCircle = (image: RasterImage, center: HandLandmark, radius: number, color: RGB) => {
+  const minX = Math.max(0, Math.floor(center.x - radius - 1));
+  const maxX = Math.min(image.width - 1, Math.ceil(center.x + radius + 1));
+  const minY = Math.max(0, Math.floor(center.y - radius - 1));
+  const maxY = Math.min(image.height - 1, Math.ceil(center.y + radius + 1));
+
+  for (let py = minY; py <= maxY; py++) {
+    for (let px = minX; px <= maxX; px++) {
+      const rx = px + 0.5 - center.x;
+      const ry = py + 0.5 - center.y;
+      const distance = Math.sqrt(rx * rx + ry * ry);
+      blendPixel(image, px, py, color, clamp01(radius + 0.5 - distance));
+    }
+  }
+};
+
+// Space kept between the hands and the image edge when they are too big and have to be shrunk
+const FIT_MARGIN = 20;
+
+// Center the hands inside the output image (like the Python offset calculation). Hands are
+// drawn at their own scale; a box too big for the image (two hands far apart, or a hand close
+// to the camera) is shrunk as a whole, so neither hand is cut off or distorted
+export const centerHands = (hands: HandLandmark[][], width: number, height: number): HandLandmark[][] => {
+  const xs = hands.flat().map(p => p.x);
+  const ys = hands.flat().map(p => p.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+
+  const boxWidth = maxX - minX;
+  const boxHeight = maxY - minY;
+  // Anything that fits is drawn 1:1, exactly as the original drawing did
+  const fits = boxWidth <= width && boxHeight <= height;
+  const scale = fits ? 1 : Math.min((width - 2 * FIT_MARGIN) / boxWidth, (height - 2 * FIT_MARGIN) / boxHeight);
+  const offsetX = ((width - boxWidth * scale) / 2) - minX * scale;
+  const offsetY = ((height - boxHeight * scale) / 2) - minY * scale;
+
+  return hands.map(landmarks => landmarks.map(landmark => ({
+    x: Math.max(0, Math.min(width - 1, landmark.x * scale + offsetX)),
+    y: Math.max(0, Math.min(height - 1, landmark.y * scale + offsetY)),
+    z: landmark.z
+  })));
+};
+
+// Draw the hand skeletons the CNN consumes: white background, green connections and
+// blue landmark dots. Pure TypeScript so it runs on the main thread, in workers and in Node.
+// Two-handed alphabets draw both hands into the same image
+export const rasterizeHands = (hands: HandLandmark[][], width: number = 400, height: number = 400): RasterImage => {
+  const image: RasterImage = {
+    width,
+    height,
+    data: new Uint8Array(width * height * 3).fill(WHITE[0])
+  };
+
+  if (hands.every(landmarks => landmarks.length === 0)) {
+    return image;
+  }
+
+  centerHands(hands, width, height).forEach(adjustedLandmarks => {
+    MODEL_HAND_CONNECTIONS.forEach(([start, end]) => {
+      if (adjustedLandmarks[start] && adjustedLandmarks[end]) {
+        strokeSegment(image, adjustedLandmarks[start], adjustedLandmarks[end], LINE_WIDTH, LINE_COLOR);
+      }
+    });
+
+    adjustedLandmarks.forEach((landmark, index) => {
+      fillCircle(image, landmark, index === 0 ? 3 : 2, POINT_COLOR);
+    });
+  });
+
+  return image;
+};
+
+export const rasterizeHand = (landmarks: HandLandmark[], width: number = 400, height: number = 400): RasterImage =>
+  rasterizeHands([landmarks], width, height);
+
+// Encode a raster as PNG, e.g. to save the exact image the model was shown
+export const rasterToPng = (image: RasterImage): Promise<Blob> => {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('2D canvas is not available'));
+  }
+
+  const rgba = new ImageData(image.width, image.height);
+  for (let pixel = 0; pixel < image.width * image.height; pixel++) {
+    rgba.data[pixel * 4] = image.data[pixel * 3];
+    rgba.data[pixel * 4 + 1] = image.data[pixel * 3 + 1];
+    rgba.data[pixel * 4 + 2] = image.data[pixel * 3 + 2];
+    rgba.data[pixel * 4 + 3] = 255;
+  }
+  context.putImageData(rgba, 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+};
@@ -0,0 +1,34 @@
+// Promise wrappers for the IndexedDB stores (dataset samples, personalization weights)
+
+export const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+// Opens a database on first use. A failed open isn't cached, so a later call retries, e.g. after
+// the user allows storage
+export class LazyDatabase {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private name: string, private version: number, private upgrade: (db: IDBDatabase) => void) {}
+
+  open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const req = indexedDB.open(this.name, this.version);
+      req.onupgradeneeded = () => this.upgrade(req.result);
+      this.db = request(req);
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
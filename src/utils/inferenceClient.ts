@@ -0,0 +1,153 @@
+import { DetectedHand } from './handLandmarks';
+import { AlphabetPack } from './alphabets';
+import { ModelManifest } from './modelRegistry';
+import { RuntimeStats } from './telemetry';
+import { BackendName, BackendPreference, BackendTiming } from './backendChoice';
+import { PredictOptions, SignPrediction } from './signLanguageModel';
+import { CalibrationWeights, LabeledSample, PersonalizeOptions } from './calibration';
+import { InferenceRequest, InferenceResponse } from '../workers/inferenceProtocol';
+
+// Distribute Omit over the union so each request keeps its own fields
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type RequestPayload = WithoutId<InferenceRequest>;
+
+interface PendingRequest {
+  resolve: (response: InferenceResponse) => void;
+  reject: (error: Error) => void;
+}
+
+interface QueuedFrame {
+  hands: DetectedHand[];
+  options?: PredictOptions;
+  resolve: (prediction: SignPrediction | null) => void;
+  reject: (error: Error) => void;
+}
+
+// Talks to the inference worker. Predictions are back-pressured: at most one frame is
+// in flight and at most one waits behind it, newer frames replace the waiting one
+export class InferenceClient {
+  private worker: Worker;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private isPredicting = false;
+  private queuedFrame: QueuedFrame | null = null;
+  private runtime: RuntimeStats | null = null;
+
+  constructor() {
+    this.worker = new Worker(new URL('../workers/inference.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<InferenceResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => {
+      this.failAll(new Error(`Inference worker error: ${event.message || 'Unknown error'}`));
+    };
+  }
+
+  // Replaces the worker's current model. The worker resolves relative URLs against its own
+  // script, so the manifest URL is resolved against the page here. Resolves with the backend
+  // the model ended up on, and the benchmark if one was run to choose it
+  async loadModel(
+    alphabet: AlphabetPack,
+    manifest: ModelManifest = alphabet.model,
+    backend: BackendPreference = 'auto'
+  ): Promise<{ backend: BackendName; benchmark: BackendTiming[] | null }> {
+    const modelUrl = new URL(manifest.url, document.baseURI).href;
+    const response = await this.send({ type: 'load', alphabetId: alphabet.id, modelId: manifest.id, modelUrl, backend });
+    if (response.type !== 'loaded') {
+      throw new Error(`Unexpected ${response.type} response to load`);
+    }
+    return { backend: response.backend, benchmark: response.benchmark };
+  }
+
+  // Train a personalization head for the loaded model on the user's samples. The worker switches
+  // to it; the returned weights are what to save
+  async personalize(user: string, samples: LabeledSample[], options?: PersonalizeOptions): Promise<CalibrationWeights> {
+    const response = await this.send({ type: 'personalize', user, samples, options });
+    if (response.type !== 'personalized') {
+      throw new Error(`Unexpected ${response.type} response to personalize`);
+    }
+    return response.weights;
+  }
+
+  // Apply saved personalization weights; null reverts to the stock model
+  async setCalibration(weights: CalibrationWeights | null): Promise<void> {
+    await this.send({ type: 'calibrate', weights });
+  }
+
+  // Resolves with null when the frame was dropped in favour of a newer one
+  predictLatest(hands: DetectedHand[], options?: PredictOptions): Promise<SignPrediction | null> {
+    return new Promise((resolve, reject) => {
+      if (this.queuedFrame) {
+        this.queuedFrame.resolve(null);
+      }
+      this.queuedFrame = { hands, options, resolve, reject };
+      this.drainQueue();
+    });
+  }
+
+  // Backend and memory as of the worker's last response
+  getRuntimeStats(): RuntimeStats | null {
+    return this.runtime;
+  }
+
+  // Drop the waiting frame, e.g. when the hand leaves the view
+  clearQueue(): void {
+    if (this.queuedFrame) {
+      this.queuedFrame.resolve(null);
+      this.queuedFrame = null;
+    }
+  }
+
+  // Terminating the worker releases its model and backend memory along with it, so nothing
+  // is sent first: a message posted right before terminate() would never be handled
+  dispose(): void {
+    this.clearQueue();
+    this.failAll(new Error('Inference worker disposed'));
+    this.worker.terminate();
+  }
+
+  private async drainQueue(): Promise<void> {
+    if (this.isPredicting || !this.queuedFrame) return;
+
+    const frame = this.queuedFrame;
+    this.queuedFrame = null;
+    this.isPredicting = true;
+
+    try {
+      const response = await this.send({ type: 'predict', hands: frame.hands, options: frame.options });
+      frame.resolve(response.type === 'prediction' ? response.result : null);
+    } catch (error) {
+      frame.reject(error instanceof Error ? error : new Error('Unknown error'));
+    } finally {
+      this.isPredicting = false;
+      this.drainQueue();
+    }
+  }
+
+  private send(payload: RequestPayload): Promise<InferenceResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ ...payload, id } as InferenceRequest);
+    });
+  }
+
+  private handleResponse(response: InferenceResponse): void {
+    if (response.type === 'loaded' || response.type === 'prediction' || response.type === 'personalized') {
+      this.runtime = response.runtime;
+    }
+
+    const request = this.pending.get(response.id);
+    if (!request) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else {
+      request.resolve(response);
+    }
+  }
+
+  private failAll(error: Error): void {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,148 @@
+import * as tf from '@tensorflow/tfjs';
+import { DetectedHand, HandLandmark, PALM_BASE, PALM_TIP, calculateDistance } from './handLandmarks';
+import { AlphabetPack, ASL_ALPHABET, assertModelFitsAlphabet } from './alphabets';
+import { ModelManifest, ASL_LANDMARK_MODEL, loadValidatedModel, timeWarmUp } from './modelRegistry';
+import {
+  EMPTY_PREDICTION,
+  PredictOptions,
+  SignClassifier,
+  SignPrediction,
+  interpretProbabilities,
+  prepareHands
+} from './signLanguageModel';
+import { CalibrationHead, CalibrationWeights, LabeledSample, PersonalizeOptions } from './calibration';
+
+// Features per hand: x and y of the 21 landmarks. MediaPipe's z is too noisy to help
+export const FEATURES_PER_HAND = 42;
+
+// Flatten canonical hands into the dense model's input. Every hand is expressed relative to the
+// signing hand's wrist, in its palm lengths, so the second hand keeps its relative position.
+// A missing second hand is all zeros
+export const landmarkFeatures = (hands: HandLandmark[][], twoHanded: boolean): number[] => {
+  const features = new Array<number>((twoHanded ? 2 : 1) * FEATURES_PER_HAND).fill(0);
+  const [primary] = hands;
+  if (!primary || primary.length !== 21) return features;
+
+  const origin = primary[PALM_BASE];
+  const palmLength = calculateDistance(origin, primary[PALM_TIP]) || 1;
+
+  hands.slice(0, twoHanded ? 2 : 1).forEach((landmarks, handIndex) => {
+    landmarks.forEach((landmark, index) => {
+      const offset = handIndex * FEATURES_PER_HAND + index * 2;
+      features[offset] = (landmark.x - origin.x) / palmLength;
+      features[offset + 1] = (landmark.y - origin.y) / palmLength;
+    });
+  });
+  return features;
+};
+
+// Dense classifier on landmark coordinates. Much cheaper than the image CNN: no rendering and
+// a few thousand multiply-adds instead of a 400x400 convolution stack
+export class LandmarkClassifier implements SignClassifier {
+  private model: tf.LayersModel | null = null;
+  private calibration: CalibrationHead | null = null;
+  private loadingPromise: Promise<void> | null = null;
+
+  constructor(
+    private alphabet: AlphabetPack = ASL_ALPHABET,
+    readonly manifest: ModelManifest = ASL_LANDMARK_MODEL,
+    private modelUrl: string = manifest.url
+  ) {}
+
+  get modelId(): string {
+    return this.manifest.id;
+  }
+
+  async loadModel(): Promise<void> {
+    if (!this.loadingPromise) {
+      this.loadingPromise = this.doLoadModel();
+    }
+    return this.loadingPromise;
+  }
+
+  private async doLoadModel(): Promise<void> {
+    try {
+      console.log(`Loading landmark model ${this.manifest.name} v${this.manifest.version}...`);
+      assertModelFitsAlphabet(this.alphabet, this.manifest);
+      this.model = await loadValidatedModel(this.manifest, this.modelUrl);
+      console.log('✅ Landmark model loaded successfully');
+    } catch (error) {
+      console.error('❌ Failed to load model:', error);
+      throw new Error(`Model loading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  isModelLoaded(): boolean {
+    return this.model !== null;
+  }
+
+  dispose(): void {
+    this.calibration?.dispose();
+    this.calibration = null;
+    this.model?.dispose();
+    this.model = null;
+    this.loadingPromise = null;
+  }
+
+  async benchmark(runs: number): Promise<number> {
+    if (!this.model) {
+      throw new Error('Model not loaded');
+    }
+    return timeWarmUp(this.manifest, this.model, runs);
+  }
+
+  async personalize(user: string, samples: LabeledSample[], options?: PersonalizeOptions): Promise<CalibrationWeights> {
+    const { twoHanded } = this.manifest.preprocessing;
+    return this.calibrationHead().train(user, samples, hands => {
+      const canonicalHands = prepareHands(hands, twoHanded);
+      return canonicalHands.length > 0 ? tf.tensor2d([landmarkFeatures(canonicalHands, twoHanded)]) : null;
+    }, options);
+  }
+
+  setCalibration(weights: CalibrationWeights | null): void {
+    if (weights || this.calibration) {
+      this.calibrationHead().setWeights(weights);
+    }
+  }
+
+  private calibrationHead(): CalibrationHead {
+    if (!this.model) {
+      throw new Error('Model not loaded');
+    }
+    this.calibration ??= new CalibrationHead(this.manifest, this.model);
+    return this.calibration;
+  }
+
+  async predictHands(hands: DetectedHand[], options: PredictOptions = {}): Promise<SignPrediction> {
+    const model = this.model;
+    if (!model) {
+      throw new Error('Model not loaded');
+    }
+
+    const { twoHanded } = this.manifest.preprocessing;
+    const canonicalHands = prepareHands(hands, twoHanded, options.handedness);
+    if (canonicalHands.length === 0) {
+      return EMPTY_PREDICTION;
+    }
+
+    try {
+      const started = performance.now();
+      const features = landmarkFeatures(canonicalHands, twoHanded);
+      const encoded = performance.now();
+
+      const calibration = this.calibration;
+      const prediction = tf.tidy(() => {
+        const input = tf.tensor2d([features]);
+        return calibration ? calibration.predict(input) : model.predict(input) as tf.Tensor;
+      });
+      const probabilities = await prediction.data();
+      prediction.dispose();
+      const timings = { preprocessMs: encoded - started, inferenceMs: performance.now() - encoded };
+
+      return { ...interpretProbabilities(this.alphabet.rules, probabilities, canonicalHands[0], options), timings };
+    } catch (error) {
+      console.error('❌ Prediction error:', error);
+      return EMPTY_PREDICTION;
+    }
+  }
+}
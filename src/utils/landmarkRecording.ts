@@ -0,0 +1,122 @@
+import { DetectedHand, DominantHandSetting, FrameSize } from './handLandmarks';
+import { OneEuroOptions } from './oneEuroFilter';
+
+// Recordings of the raw (unsmoothed) hands MediaPipe reported, frame by frame. Replaying one
+// runs the same smoothing, prediction and commit logic as the live camera, so a wrong letter
+// can be reproduced without a camera. With expectedText a recording is a regression fixture
+// for the deterministic replay in landmarkReplay.ts
+
+export const RECORDING_FORMAT = 'signspeak-landmarks';
+export const RECORDING_VERSION = 1;
+
+export interface RecordedFrame {
+  // Milliseconds since the first frame
+  t: number;
+  size: FrameSize;
+  // Empty when no hand was detected
+  hands: DetectedHand[];
+}
+
+export interface LandmarkRecording {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  recordedAt: string;
+  // What the recognizer was set to, for reference; a replay uses the current settings
+  alphabetId: string;
+  modelId: string;
+  dominantHand: DominantHandSetting;
+  smoothing: OneEuroOptions | null;
+  // Whether the source was shown mirrored (webcam), so replays are drawn the same way
+  mirrored: boolean;
+  // What a deterministic replay should type, for recordings kept as fixtures. In a fixture the
+  // model, dominant hand and smoothing above are the ones that typed it
+  expectedText?: string;
+  frames: RecordedFrame[];
+}
+
+export type RecordingMetadata = Omit<LandmarkRecording, 'format' | 'version' | 'recordedAt' | 'expectedText' | 'frames'>;
+
+// Sub-pixel noise doesn't change any prediction; rounding keeps files about half the size
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+export class LandmarkRecorder {
+  private frames: RecordedFrame[] = [];
+  private firstTimestamp: number | null = null;
+  private recordedAt = new Date().toISOString();
+
+  constructor(private metadata: RecordingMetadata) {}
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  addFrame(hands: DetectedHand[], size: FrameSize, timestamp: number): void {
+    this.firstTimestamp ??= timestamp;
+    this.frames.push({
+      t: timestamp - this.firstTimestamp,
+      size: { ...size },
+      hands: hands.map(hand => ({
+        landmarks: hand.landmarks.map(({ x, y, z }) => ({ x: round(x, 2), y: round(y, 2), z: round(z, 5) })),
+        handedness: hand.handedness,
+        score: round(hand.score, 4)
+      }))
+    });
+  }
+
+  finish(): LandmarkRecording {
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      recordedAt: this.recordedAt,
+      ...this.metadata,
+      frames: this.frames
+    };
+  }
+}
+
+export const isHand = (value: unknown): value is DetectedHand => {
+  const hand = value as DetectedHand;
+  return typeof hand === 'object' && hand !== null &&
+    Array.isArray(hand.landmarks) &&
+    hand.landmarks.every(point => typeof point?.x === 'number' && typeof point?.y === 'number' && typeof point?.z === 'number') &&
+    (hand.handedness === 'left' || hand.handedness === 'right') &&
+    typeof hand.score === 'number';
+};
+
+// Parse and check a recording file
+export const parseLandmarkRecording = (text: string): LandmarkRecording => {
+  let parsed: Partial<LandmarkRecording>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Recording is not valid JSON');
+  }
+
+  if (parsed.format !== RECORDING_FORMAT) {
+    throw new Error('Not a landmark recording');
+  }
+  if (parsed.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${parsed.version}; this build reads version ${RECORDING_VERSION}`);
+  }
+  const { frames } = parsed;
+  if (!Array.isArray(frames) || frames.length === 0) {
+    throw new Error('Recording has no frames');
+  }
+  if (parsed.expectedText !== undefined && typeof parsed.expectedText !== 'string') {
+    throw new Error('Recording expectedText must be a string');
+  }
+
+  frames.forEach((frame, index) => {
+    const valid = typeof frame?.t === 'number' &&
+      typeof frame.size?.width === 'number' && typeof frame.size?.height === 'number' &&
+      Array.isArray(frame.hands) && frame.hands.every(isHand);
+    if (!valid) {
+      throw new Error(`Recording frame ${index} is malformed`);
+    }
+    if (index > 0 && frame.t < frames[index - 1].t) {
+      throw new Error(`Recording frame ${index} goes back in time`);
+    }
+  });
+
+  return parsed as LandmarkRecording;
+};
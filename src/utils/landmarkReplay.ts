@@ -0,0 +1,78 @@
+import { toReferenceFrame } from './handLandmarks';
+import { LandmarkRecording } from './landmarkRecording';
+import { GestureCommand } from './commandGestures';
+import { AutoCommitController, AutoCommitOptions } from './autoCommit';
+import { FramePipeline, FramePipelineOptions, FramePredictor } from './framePipeline';
+
+// Deterministic replay of a landmark recording: every recorded frame goes through the frame
+// pipeline live detection uses, in order, followed by hands-free typing. Each prediction is
+// awaited, and every timer runs on the recorded timestamps. The same recording, model and
+// settings always type the same text, so a recording with its expected text is a regression
+// fixture. Live replays keep real-time pacing and don't give this
+
+// mode is the starting mode; the toggle-mode gesture switches it like in live detection
+export interface ReplayOptions extends FramePipelineOptions {
+  autoCommit: AutoCommitOptions;
+}
+
+export type ReplayEvent =
+  | { t: number; kind: 'letter'; letter: string }
+  | { t: number; kind: 'command'; command: GestureCommand };
+
+export interface ReplayResult {
+  // The sentence hands-free typing builds: committed letters, edited by space, backspace and
+  // clear gestures
+  text: string;
+  events: ReplayEvent[];
+  frames: number;
+}
+
+export interface ReplayProgress {
+  done: number;
+  total: number;
+}
+
+export const replayRecording = async (
+  recording: LandmarkRecording,
+  options: ReplayOptions,
+  predict: FramePredictor,
+  onProgress?: (progress: ReplayProgress) => void,
+  signal?: AbortSignal
+): Promise<ReplayResult> => {
+  const pipeline = new FramePipeline(options);
+  const commit = new AutoCommitController(options.autoCommit);
+  const events: ReplayEvent[] = [];
+  let mode = options.mode;
+  let text = '';
+
+  for (const [index, frame] of recording.frames.entries()) {
+    if (signal?.aborted) {
+      throw new Error('Replay cancelled');
+    }
+
+    const { t } = frame;
+    // Unlike live detection every frame worth predicting is predicted, and the answer belongs
+    // to this frame
+    const { command } = await pipeline.process(toReferenceFrame(frame.hands, frame.size), t, predict);
+    if (command) {
+      events.push({ t, kind: 'command', command });
+      if (command === 'space') text += ' ';
+      if (command === 'backspace') text = text.slice(0, -1);
+      if (command === 'clear') text = '';
+      if (command === 'toggleMode') {
+        mode = mode === 'letters' ? 'digits' : 'letters';
+        pipeline.setOptions({ ...options, mode });
+      }
+    }
+
+    const { letter, confidence } = pipeline.letter;
+    const { committed } = commit.update(letter, confidence, t);
+    if (committed) {
+      events.push({ t, kind: 'letter', letter: committed });
+      text += committed;
+    }
+    onProgress?.({ done: index + 1, total: recording.frames.length });
+  }
+
+  return { text, events, frames: recording.frames.length };
+};
@@ -0,0 +1,35 @@
+import { Hands, Results } from '@mediapipe/hands';
+import { DetectedHand, FrameSize, handednessFromLabel } from './handLandmarks';
+
+// MediaPipe Hands as used by live detection and offline transcription, so both see the same
+// landmarks for the same frame
+
+export const createHandsDetector = (onResults: (results: Results) => void): Hands => {
+  const hands = new Hands({
+    locateFile: (file) => {
+      return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
+    }
+  });
+
+  hands.setOptions({
+    maxNumHands: 2,
+    modelComplexity: 1,
+    minDetectionConfidence: 0.8,
+    minTrackingConfidence: 0.7
+  });
+
+  hands.onResults(onResults);
+  return hands;
+};
+
+// Convert MediaPipe landmarks to our format (pixel coordinates of the frame)
+export const handsFromResults = (results: Results, frameSize: FrameSize): DetectedHand[] =>
+  (results.multiHandLandmarks ?? []).map((landmarks, index) => ({
+    landmarks: landmarks.map(landmark => ({
+      x: landmark.x * frameSize.width,
+      y: landmark.y * frameSize.height,
+      z: landmark.z || 0
+    })),
+    handedness: handednessFromLabel(results.multiHandedness?.[index]?.label),
+    score: results.multiHandedness?.[index]?.score ?? 0
+  }));
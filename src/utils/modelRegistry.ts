@@ -0,0 +1,206 @@
+import * as tf from '@tensorflow/tfjs';
+
+// Every model the app can load is described by a manifest. The manifest is checked against the
+// files and the loaded LayersModel, so a wrong or mismatched model fails at load time with a
+// clear message instead of producing garbage predictions
+
+export type ModelPreprocessing =
+  | {
+      // Hand skeleton drawn on a white canvas, see rasterizeHands
+      kind: 'skeleton-image';
+      // Both hands are drawn into the image (two-handed alphabets)
+      twoHanded: boolean;
+      // Pixel values are divided by this before inference
+      scale: number;
+    }
+  | {
+      // Palm-normalized landmark coordinates, see landmarkFeatures
+      kind: 'landmark-vector';
+      // Features of the second hand follow the signing hand's
+      twoHanded: boolean;
+    };
+
+export interface ModelManifest {
+  id: string;
+  name: string;
+  version: string;
+  // Alphabet pack whose rules interpret the output classes
+  alphabetId: string;
+  // Relative URLs resolve against the page
+  url: string;
+  // Whether trained weights ship at url. Registered models without them stay listed, so a
+  // model.json dropped in place can be tried, but the picker won't select them
+  available: boolean;
+  // Input without the batch dimension: [height, width, channels] for images, [features] for vectors
+  inputShape: number[];
+  // Letters behind each output class, in output order
+  classes: string[][];
+  preprocessing: ModelPreprocessing;
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+export const ASL_CNN_MODEL: ModelManifest = {
+  id: 'asl-cnn8',
+  name: 'ASL 8-group CNN',
+  version: '1.0.0',
+  alphabetId: 'asl',
+  url: 'model.json',
+  available: true,
+  inputShape: [400, 400, 3],
+  classes: [
+    ['A', 'E', 'M', 'N', 'S', 'T'],
+    ['B', 'D', 'F', 'I', 'K', 'R', 'U', 'V', 'W'],
+    ['C', 'O'],
+    ['G', 'H'],
+    ['L'],
+    ['P', 'Q', 'Z'],
+    ['X'],
+    ['J', 'Y']
+  ],
+  preprocessing: { kind: 'skeleton-image', twoHanded: false, scale: 255 }
+};
+
+export const BSL_CNN_MODEL: ModelManifest = {
+  id: 'bsl-cnn26',
+  name: 'BSL 26-letter CNN',
+  version: '0.1.0',
+  alphabetId: 'bsl',
+  url: 'models/bsl/model.json',
+  available: false,
+  inputShape: [400, 400, 3],
+  classes: LETTERS.map(letter => [letter]),
+  preprocessing: { kind: 'skeleton-image', twoHanded: true, scale: 255 }
+};
+
+export const ISL_CNN_MODEL: ModelManifest = {
+  id: 'isl-cnn26',
+  name: 'ISL 26-letter CNN',
+  version: '0.1.0',
+  alphabetId: 'isl',
+  url: 'models/isl/model.json',
+  available: false,
+  inputShape: [400, 400, 3],
+  classes: LETTERS.map(letter => [letter]),
+  preprocessing: { kind: 'skeleton-image', twoHanded: true, scale: 255 }
+};
+
+// Small dense network on landmark coordinates: no image rendering, same 8 groups as the CNN
+export const ASL_LANDMARK_MODEL: ModelManifest = {
+  id: 'asl-landmark-mlp',
+  name: 'ASL landmark MLP',
+  version: '0.1.0',
+  alphabetId: 'asl',
+  url: 'models/asl-landmarks/model.json',
+  available: false,
+  inputShape: [42],
+  classes: ASL_CNN_MODEL.classes,
+  preprocessing: { kind: 'landmark-vector', twoHanded: false }
+};
+
+export const MODEL_REGISTRY: ModelManifest[] = [ASL_CNN_MODEL, ASL_LANDMARK_MODEL, BSL_CNN_MODEL, ISL_CNN_MODEL];
+
+export const getModelManifest = (id: string): ModelManifest | undefined =>
+  MODEL_REGISTRY.find(manifest => manifest.id === id);
+
+// The subset of a model.json this module reads
+interface ModelArtifactsJson {
+  format?: string;
+  weightsManifest?: { paths: string[] }[];
+}
+
+// Check model.json and that every weight shard it lists can be fetched
+export const validateModelArtifacts = async (manifest: ModelManifest, modelUrl: string): Promise<void> => {
+  const response = await fetch(modelUrl);
+  if (!response.ok) {
+    throw new Error(`Model file not found at ${modelUrl}. Status: ${response.status}`);
+  }
+
+  let artifacts: ModelArtifactsJson;
+  try {
+    artifacts = await response.json();
+  } catch {
+    throw new Error(`${manifest.name}: ${modelUrl} is not valid JSON`);
+  }
+
+  if (artifacts.format !== 'layers-model') {
+    throw new Error(`${manifest.name}: expected a layers-model, got ${artifacts.format ?? 'an unknown format'}`);
+  }
+
+  const shardPaths = (artifacts.weightsManifest ?? []).flatMap(group => group.paths);
+  if (shardPaths.length === 0) {
+    throw new Error(`${manifest.name}: model.json lists no weight shards`);
+  }
+
+  const missing: string[] = [];
+  await Promise.all(shardPaths.map(async path => {
+    const shard = await fetch(new URL(path, response.url || modelUrl).href, { method: 'HEAD' });
+    if (!shard.ok) missing.push(path);
+  }));
+  if (missing.length > 0) {
+    throw new Error(`${manifest.name}: missing weight shards ${missing.sort().join(', ')}`);
+  }
+};
+
+const formatShape = (shape: (number | null)[]): string => `[${shape.map(dim => dim ?? '?').join(', ')}]`;
+
+// Compare the loaded model's input and output with what the manifest declares
+export const validateLoadedModel = (manifest: ModelManifest, model: tf.LayersModel): void => {
+  const inputShape = model.inputs[0].shape.slice(1);
+  if (inputShape.length !== manifest.inputShape.length || manifest.inputShape.some((dim, index) => inputShape[index] !== dim)) {
+    throw new Error(
+      `${manifest.name}: model input is ${formatShape(inputShape)}, manifest declares ${formatShape(manifest.inputShape)}`
+    );
+  }
+
+  const outputShape = model.outputs[0].shape;
+  const outputClasses = outputShape[outputShape.length - 1];
+  if (outputShape.length !== 2 || outputClasses !== manifest.classes.length) {
+    throw new Error(
+      `${manifest.name}: model output is ${formatShape(outputShape)}, manifest declares ${manifest.classes.length} classes`
+    );
+  }
+};
+
+// Validate, load and warm up a manifest's model; shared by every classifier type
+export const loadValidatedModel = async (manifest: ModelManifest, modelUrl: string): Promise<tf.LayersModel> => {
+  // Check model.json and its weight shards before handing them to tfjs
+  await validateModelArtifacts(manifest, modelUrl);
+
+  // Load the model and make sure it is the one the manifest describes
+  const model = await tf.loadLayersModel(modelUrl);
+  try {
+    validateLoadedModel(manifest, model);
+  } catch (error) {
+    model.dispose();
+    throw error;
+  }
+
+  console.log('Model input shape:', model.inputs[0].shape);
+  console.log('Model output shape:', model.outputs[0].shape);
+
+  // Warm up the model with a dummy prediction
+  await timeWarmUp(manifest, model, 0);
+  console.log('🔥 Model warmed up and ready for predictions');
+
+  return model;
+};
+
+// Run the warm-up prediction (a batch of zeros) on the current backend and return its average
+// time over `runs`. The first run compiles the backend's kernels and isn't counted
+export const timeWarmUp = async (manifest: ModelManifest, model: tf.LayersModel, runs: number): Promise<number> => {
+  const predict = async () => {
+    const output = tf.tidy(() => model.predict(tf.zeros([1, ...manifest.inputShape])) as tf.Tensor);
+    await output.data();
+    output.dispose();
+  };
+
+  await predict();
+  if (runs <= 0) return 0;
+
+  const started = performance.now();
+  for (let run = 0; run < runs; run++) {
+    await predict();
+  }
+  return (performance.now() - started) / runs;
+};
@@ -0,0 +1,186 @@
+import { HandLandmark, PALM_BASE, PALM_TIP, calculateDistance } from './handLandmarks';
+import { evaluateCondition } from './ruleEngine';
+import { FINGER_JOINTS, Finger, extended } from './shapeConditions';
+
+// J and Z are drawn in the air, so they are recognized from fingertip trajectories rather
+// than single frames. J traces a hook with the pinky, Z a zig-zag with the index finger
+
+export type MotionLetter = 'J' | 'Z';
+
+export interface MotionDetection {
+  letter: MotionLetter;
+  confidence: number;
+}
+
+export interface MotionRecognizerOptions {
+  // How much trajectory history is considered
+  windowMs: number;
+  // Minimum length of a Z stroke, in palm lengths
+  minStroke: number;
+  // Minimum drop of the pinky before the J hook, in palm lengths
+  minDescent: number;
+}
+
+const DEFAULT_OPTIONS: MotionRecognizerOptions = {
+  windowMs: 1500,
+  minStroke: 0.5,
+  minDescent: 0.5
+};
+
+// Horizontal wobble ignored when splitting a path into strokes, in palm lengths
+const STROKE_HYSTERESIS = 0.15;
+const MOTION_CONFIDENCE = 0.85;
+
+interface TrajectorySample {
+  t: number;
+  x: number;
+  y: number;
+  palmLength: number;
+}
+
+interface Stroke {
+  dx: number;
+  dy: number;
+}
+
+// Orientation-free extension test: the hand twists during J, so y comparisons don't hold
+const matchesShape = (pts: HandLandmark[], fingers: Finger[]): boolean =>
+  (Object.keys(FINGER_JOINTS) as Finger[]).every(finger => evaluateCondition(extended(finger), pts) === fingers.includes(finger));
+
+// How long a detected motion letter replaces static predictions, in frame time
+export const MOTION_HOLD_MS = 1000;
+
+export class MotionRecognizer {
+  private options: MotionRecognizerOptions;
+  private pinkyTrack: TrajectorySample[] = [];
+  private indexTrack: TrajectorySample[] = [];
+
+  constructor(options: Partial<MotionRecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Feed one frame of pixel landmarks; returns a letter once its motion completes
+  addFrame(landmarks: HandLandmark[], timestamp: number): MotionDetection | null {
+    if (landmarks.length !== 21) {
+      this.reset();
+      return null;
+    }
+
+    const palmLength = calculateDistance(landmarks[PALM_BASE], landmarks[PALM_TIP]);
+    if (palmLength === 0) return null;
+
+    // J: pinky out (the I hand shape); Z: index out
+    this.extendTrack(this.pinkyTrack, matchesShape(landmarks, ['pinky']), landmarks[20], palmLength, timestamp);
+    this.extendTrack(this.indexTrack, matchesShape(landmarks, ['index']), landmarks[8], palmLength, timestamp);
+
+    if (this.isZigZag(this.indexTrack)) {
+      this.reset();
+      return { letter: 'Z', confidence: MOTION_CONFIDENCE };
+    }
+    if (this.isHook(this.pinkyTrack)) {
+      this.reset();
+      return { letter: 'J', confidence: MOTION_CONFIDENCE };
+    }
+    return null;
+  }
+
+  reset(): void {
+    this.pinkyTrack = [];
+    this.indexTrack = [];
+  }
+
+  private extendTrack(
+    track: TrajectorySample[],
+    shapeHeld: boolean,
+    tip: HandLandmark,
+    palmLength: number,
+    timestamp: number
+  ): void {
+    if (!shapeHeld) {
+      track.length = 0;
+      return;
+    }
+
+    track.push({ t: timestamp, x: tip.x, y: tip.y, palmLength });
+    while (track.length > 0 && timestamp - track[0].t > this.options.windowMs) {
+      track.shift();
+    }
+  }
+
+  // Split a path into horizontal strokes wherever the x direction reverses
+  private toStrokes(track: TrajectorySample[]): Stroke[] {
+    const strokes: Stroke[] = [];
+    let anchor = track[0];
+    let extreme = track[0];
+    let direction = 0;
+
+    for (const sample of track.slice(1)) {
+      const unit = sample.palmLength;
+
+      if (direction === 0) {
+        const travelled = (sample.x - anchor.x) / unit;
+        if (Math.abs(travelled) > STROKE_HYSTERESIS) {
+          direction = Math.sign(travelled);
+          extreme = sample;
+        }
+        continue;
+      }
+
+      const dx = (sample.x - extreme.x) / unit;
+      if (Math.sign(dx) === direction) {
+        extreme = sample;
+      } else if (Math.abs(dx) > STROKE_HYSTERESIS) {
+        strokes.push({ dx: (extreme.x - anchor.x) / unit, dy: (extreme.y - anchor.y) / unit });
+        anchor = extreme;
+        extreme = sample;
+        direction = -direction;
+      }
+    }
+
+    if (direction !== 0) {
+      const unit = extreme.palmLength;
+      strokes.push({ dx: (extreme.x - anchor.x) / unit, dy: (extreme.y - anchor.y) / unit });
+    }
+    return strokes;
+  }
+
+  // Across, diagonal back and down, across again. Direction-agnostic so mirrored hands work
+  private isZigZag(track: TrajectorySample[]): boolean {
+    if (track.length < 6) return false;
+
+    const strokes = this.toStrokes(track).slice(-3);
+    if (strokes.length < 3) return false;
+
+    const [top, diagonal, bottom] = strokes;
+    const { minStroke } = this.options;
+    return Math.abs(top.dx) >= minStroke &&
+      Math.abs(diagonal.dx) >= minStroke &&
+      Math.abs(bottom.dx) >= minStroke &&
+      Math.sign(top.dx) === Math.sign(bottom.dx) &&
+      diagonal.dy >= minStroke * 0.8 &&
+      Math.abs(top.dy) < Math.abs(diagonal.dy) &&
+      Math.abs(bottom.dy) < Math.abs(diagonal.dy);
+  }
+
+  // Pinky drops, then curls sideways and back up at the bottom of the stroke
+  private isHook(track: TrajectorySample[]): boolean {
+    if (track.length < 6) return false;
+
+    let lowest = 0;
+    track.forEach((sample, index) => {
+      if (sample.y > track[lowest].y) lowest = index;
+    });
+    if (lowest === 0 || lowest === track.length - 1) return false;
+
+    const start = track[0];
+    const bottom = track[lowest];
+    const end = track[track.length - 1];
+    const unit = bottom.palmLength;
+
+    const descent = (bottom.y - start.y) / unit;
+    const sweep = Math.abs(end.x - bottom.x) / unit;
+    const rise = (bottom.y - end.y) / unit;
+
+    return descent >= this.options.minDescent && sweep >= 0.25 && rise >= 0.1;
+  }
+}
@@ -0,0 +1,132 @@
+import { DetectedHand, HandLandmark, PALM_BASE, PALM_TIP, calculateDistance } from './handLandmarks';
+
+// One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises with speed, so
+// slow jitter is smoothed away while fast movements keep little lag
+
+export interface OneEuroOptions {
+  // Cutoff frequency (Hz) at rest; lower means smoother and laggier
+  minCutoff: number;
+  // How fast the cutoff rises with speed (per px/s); higher means less lag when moving
+  beta: number;
+  // Cutoff frequency (Hz) for the speed estimate
+  derivativeCutoff: number;
+}
+
+export const DEFAULT_ONE_EURO_OPTIONS: OneEuroOptions = {
+  minCutoff: 1.0,
+  beta: 0.02,
+  derivativeCutoff: 1.0
+};
+
+const smoothingFactor = (cutoff: number, elapsedSeconds: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / elapsedSeconds);
+};
+
+export class OneEuroFilter {
+  private previousValue: number | null = null;
+  private previousDerivative = 0;
+  private previousTime = 0;
+
+  constructor(private options: OneEuroOptions = DEFAULT_ONE_EURO_OPTIONS) {}
+
+  filter(value: number, timestamp: number): number {
+    if (this.previousValue === null || timestamp <= this.previousTime) {
+      this.previousValue = this.previousValue ?? value;
+      this.previousTime = timestamp;
+      return this.previousValue;
+    }
+
+    const elapsedSeconds = (timestamp - this.previousTime) / 1000;
+    const { minCutoff, beta, derivativeCutoff } = this.options;
+
+    const derivative = (value - this.previousValue) / elapsedSeconds;
+    const smoothedDerivative = this.previousDerivative +
+      smoothingFactor(derivativeCutoff, elapsedSeconds) * (derivative - this.previousDerivative);
+
+    const cutoff = minCutoff + beta * Math.abs(smoothedDerivative);
+    const smoothed = this.previousValue + smoothingFactor(cutoff, elapsedSeconds) * (value - this.previousValue);
+
+    this.previousValue = smoothed;
+    this.previousDerivative = smoothedDerivative;
+    this.previousTime = timestamp;
+    return smoothed;
+  }
+}
+
+// One filter per coordinate of each landmark
+class LandmarkTrack {
+  private filters: OneEuroFilter[][];
+  // Last smoothed wrist, used to match the hand in the next frame
+  wrist: HandLandmark | null = null;
+
+  constructor(options: OneEuroOptions) {
+    this.filters = Array.from({ length: 21 }, () => [0, 1, 2].map(() => new OneEuroFilter(options)));
+  }
+
+  smooth(landmarks: HandLandmark[], timestamp: number): HandLandmark[] {
+    const smoothed = landmarks.map((landmark, index) => {
+      const [fx, fy, fz] = this.filters[index];
+      return {
+        x: fx.filter(landmark.x, timestamp),
+        y: fy.filter(landmark.y, timestamp),
+        z: fz.filter(landmark.z, timestamp)
+      };
+    });
+    this.wrist = smoothed[PALM_BASE];
+    return smoothed;
+  }
+}
+
+// A hand whose wrist jumped further than this (in palm lengths) is treated as a new hand
+const MAX_TRACK_JUMP = 2;
+
+// Smooths every visible hand. Hands are matched to the previous frame's by wrist position, so
+// filters never blend two different hands, and a hand that reappears starts a fresh track
+export class HandSmoother {
+  private tracks: LandmarkTrack[] = [];
+
+  constructor(private options: OneEuroOptions = DEFAULT_ONE_EURO_OPTIONS) {}
+
+  setOptions(options: OneEuroOptions): void {
+    if (options.minCutoff === this.options.minCutoff && options.beta === this.options.beta &&
+        options.derivativeCutoff === this.options.derivativeCutoff) return;
+    this.options = options;
+    this.reset();
+  }
+
+  smooth(hands: DetectedHand[], timestamp: number): DetectedHand[] {
+    const available = [...this.tracks];
+    const tracks: LandmarkTrack[] = [];
+
+    const smoothed = hands.map(hand => {
+      if (hand.landmarks.length !== 21) return hand;
+
+      const wrist = hand.landmarks[PALM_BASE];
+      const palmLength = calculateDistance(wrist, hand.landmarks[PALM_TIP]) || 1;
+      const nearest = available
+        .map(track => ({ track, jump: track.wrist ? calculateDistance(track.wrist, wrist) / palmLength : Infinity }))
+        .sort((a, b) => a.jump - b.jump)[0];
+
+      let track: LandmarkTrack;
+      if (nearest && nearest.jump < MAX_TRACK_JUMP) {
+        track = nearest.track;
+        available.splice(available.indexOf(track), 1);
+      } else {
+        track = new LandmarkTrack(this.options);
+      }
+      tracks.push(track);
+
+      return { ...hand, landmarks: track.smooth(hand.landmarks, timestamp) };
+    });
+
+    // Tracks without a hand this frame are dropped
+    this.tracks = tracks;
+    return smoothed;
+  }
+
+  // Call when the hands leave the frame
+  reset(): void {
+    this.tracks = [];
+  }
+}
@@ -0,0 +1,35 @@
+import { CalibrationWeights } from './calibration';
+import { LazyDatabase, request, transactionDone } from './indexedDb';
+
+// Personalization heads, one per model and signer. Deleting one reverts that signer to the
+// stock model
+
+const STORE = 'heads';
+
+const key = (modelId: string, user: string) => `${modelId}/${user}`;
+
+export class PersonalizationStore {
+  private database = new LazyDatabase('signspeak-personalization', 1, db => {
+    db.createObjectStore(STORE);
+  });
+
+  async get(modelId: string, user: string): Promise<CalibrationWeights | null> {
+    const db = await this.database.open();
+    const weights = await request(db.transaction(STORE).objectStore(STORE).get(key(modelId, user)));
+    return (weights as CalibrationWeights | undefined) ?? null;
+  }
+
+  async save(weights: CalibrationWeights): Promise<void> {
+    const db = await this.database.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(weights, key(weights.modelId, weights.user));
+    await transactionDone(tx);
+  }
+
+  async delete(modelId: string, user: string): Promise<void> {
+    const db = await this.database.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(key(modelId, user));
+    await transactionDone(tx);
+  }
+}
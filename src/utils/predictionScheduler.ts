@@ -0,0 +1,109 @@
+import { DetectedHand, PALM_BASE, PALM_TIP, calculateDistance } from './handLandmarks';
+
+// Decides on which camera frames to run a prediction. The pace follows the measured inference
+// latency, so fast machines predict often and slow ones aren't flooded, and frames where the
+// hands haven't moved are skipped. Only one prediction is in flight at a time; the next one
+// starts from whatever frame is current when the previous finishes
+
+export interface SchedulerOptions {
+  // Bounds for the time between prediction starts
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  // Interval is this multiple of the average latency, leaving the thread some idle time
+  latencyHeadroom: number;
+  // Weight of the newest latency sample in the running average
+  latencySmoothing: number;
+  // Largest landmark movement (in palm lengths) that still counts as holding still
+  stillThreshold: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  minIntervalMs: 50,
+  maxIntervalMs: 1000,
+  latencyHeadroom: 1.5,
+  latencySmoothing: 0.2,
+  stillThreshold: 0.04
+};
+
+// Largest movement of any landmark between two frames, in palm lengths of the signing hand
+const handMovement = (previous: DetectedHand[], current: DetectedHand[]): number => {
+  if (previous.length !== current.length) return Infinity;
+
+  let movement = 0;
+  current.forEach((hand, handIndex) => {
+    const before = previous[handIndex].landmarks;
+    if (before.length !== hand.landmarks.length) {
+      movement = Infinity;
+      return;
+    }
+    const palmLength = calculateDistance(hand.landmarks[PALM_BASE], hand.landmarks[PALM_TIP]) || 1;
+    hand.landmarks.forEach((landmark, index) => {
+      movement = Math.max(movement, calculateDistance(landmark, before[index]) / palmLength);
+    });
+  });
+  return movement;
+};
+
+export class PredictionScheduler {
+  private options: SchedulerOptions;
+  private inFlight = false;
+  private predictionId = 0;
+  private lastStart = 0;
+  private lastHands: DetectedHand[] = [];
+  private averageLatency: number | null = null;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
+
+  // Current target time between predictions
+  getIntervalMs(): number {
+    const { minIntervalMs, maxIntervalMs, latencyHeadroom } = this.options;
+    const latency = this.averageLatency ?? maxIntervalMs / latencyHeadroom;
+    return Math.min(maxIntervalMs, Math.max(minIntervalMs, latency * latencyHeadroom));
+  }
+
+  getAverageLatencyMs(): number | null {
+    return this.averageLatency;
+  }
+
+  shouldPredict(hands: DetectedHand[], timestamp: number): boolean {
+    if (this.inFlight) return false;
+
+    const elapsed = timestamp - this.lastStart;
+    if (elapsed < this.getIntervalMs()) return false;
+
+    // A still hand keeps its letter; re-check it only at the slowest pace
+    const isStill = handMovement(this.lastHands, hands) < this.options.stillThreshold;
+    return !isStill || elapsed >= this.options.maxIntervalMs;
+  }
+
+  // Returns an id to pass to finish
+  start(hands: DetectedHand[], timestamp: number): number {
+    this.inFlight = true;
+    this.lastStart = timestamp;
+    this.lastHands = hands;
+    return ++this.predictionId;
+  }
+
+  // Call when the prediction settles, whether it succeeded, failed or was dropped. Predictions
+  // started before a reset are ignored
+  finish(id: number, timestamp: number): void {
+    if (!this.inFlight || id !== this.predictionId) return;
+    this.inFlight = false;
+
+    const latency = timestamp - this.lastStart;
+    const { latencySmoothing } = this.options;
+    this.averageLatency = this.averageLatency === null
+      ? latency
+      : this.averageLatency + latencySmoothing * (latency - this.averageLatency);
+  }
+
+  // The hand left: the next hand that appears is predicted right away. The latency estimate
+  // is kept, it describes the machine rather than the hand
+  reset(): void {
+    this.inFlight = false;
+    this.lastStart = 0;
+    this.lastHands = [];
+  }
+}
@@ -0,0 +1,223 @@
+import { HandLandmark, calculateDistance } from './handLandmarks';
+
+// Declarative disambiguation rules. Everything in a RuleSet is plain data so rule
+// tables can be stored, diffed and loaded as JSON
+
+export type ComparisonOperator = 'lt' | 'lte' | 'gt' | 'gte';
+
+// pts[a][axis] <op> pts[b][axis]
+export interface AxisCondition {
+  kind: 'axis';
+  axis: 'x' | 'y';
+  a: number;
+  op: ComparisonOperator;
+  b: number;
+}
+
+// distance(between) [- distance(minus)] <op> value
+export interface DistanceCondition {
+  kind: 'distance';
+  between: [number, number];
+  minus?: [number, number];
+  op: ComparisonOperator;
+  value: number;
+}
+
+export type RuleCondition = AxisCondition | DistanceCondition;
+
+// Shorthands for writing rule tables
+export const axisCondition = (axis: 'x' | 'y', a: number, op: ComparisonOperator, b: number): AxisCondition => ({
+  kind: 'axis', axis, a, op, b
+});
+
+export const distanceCondition = (
+  between: [number, number],
+  op: ComparisonOperator,
+  value: number,
+  minus?: [number, number]
+): DistanceCondition => ({
+  kind: 'distance', between, op, value, ...(minus ? { minus } : {})
+});
+
+// Overrides the predicted group when the model's top-2 pair is listed and all conditions hold.
+// Group rules run in order and the last one that fires wins
+export interface GroupRule {
+  id: string;
+  description?: string;
+  whenPredicted: [number, number][];
+  conditions: RuleCondition[];
+  setGroup: number;
+}
+
+// Picks a letter inside a group. Letter rules run in order and the first one that fires wins
+export interface LetterRule {
+  id: string;
+  group: number;
+  letter: string;
+  conditions: RuleCondition[];
+}
+
+export interface RuleSet {
+  version: number;
+  // Condition margin (in palm lengths) at which a rule counts as clearly satisfied
+  marginScale: number;
+  groupRules: GroupRule[];
+  letterRules: LetterRule[];
+  // Letter used when no letter rule fires, indexed by group
+  defaultLetters: string[];
+}
+
+export interface RuleEvaluation {
+  id: string;
+  matched: boolean;
+}
+
+export interface RuleTrace {
+  predictedPair: [number, number];
+  groupRules: RuleEvaluation[];
+  firedGroupRule: string | null;
+  group: number;
+  letterRules: RuleEvaluation[];
+  firedLetterRule: string | null;
+  letter: string;
+}
+
+export interface LetterCandidate {
+  letter: string;
+  // Share of the group's probability given to this letter; sums to 1 within a group
+  score: number;
+}
+
+export interface RuleOutcome {
+  group: number;
+  letter: string;
+  trace: RuleTrace;
+}
+
+const compare = (left: number, op: ComparisonOperator, right: number): boolean => {
+  switch (op) {
+    case 'lt': return left < right;
+    case 'lte': return left <= right;
+    case 'gt': return left > right;
+    case 'gte': return left >= right;
+  }
+};
+
+export const evaluateCondition = (condition: RuleCondition, pts: HandLandmark[]): boolean => {
+  if (condition.kind === 'axis') {
+    const a = pts[condition.a];
+    const b = pts[condition.b];
+    if (!a || !b) return false;
+    return compare(a[condition.axis], condition.op, b[condition.axis]);
+  }
+
+  const [from, to] = condition.between;
+  if (!pts[from] || !pts[to]) return false;
+  let value = calculateDistance(pts[from], pts[to]);
+  if (condition.minus) {
+    const [minusFrom, minusTo] = condition.minus;
+    if (!pts[minusFrom] || !pts[minusTo]) return false;
+    value -= calculateDistance(pts[minusFrom], pts[minusTo]);
+  }
+  return compare(value, condition.op, condition.value);
+};
+
+// Signed distance from the decision boundary, positive when the condition holds
+const conditionMargin = (condition: RuleCondition, pts: HandLandmark[]): number => {
+  let left: number;
+  let right: number;
+
+  if (condition.kind === 'axis') {
+    const a = pts[condition.a];
+    const b = pts[condition.b];
+    if (!a || !b) return -Infinity;
+    left = a[condition.axis];
+    right = b[condition.axis];
+  } else {
+    const [from, to] = condition.between;
+    if (!pts[from] || !pts[to]) return -Infinity;
+    left = calculateDistance(pts[from], pts[to]);
+    if (condition.minus) {
+      const [minusFrom, minusTo] = condition.minus;
+      if (!pts[minusFrom] || !pts[minusTo]) return -Infinity;
+      left -= calculateDistance(pts[minusFrom], pts[minusTo]);
+    }
+    right = condition.value;
+  }
+
+  return condition.op === 'lt' || condition.op === 'lte' ? right - left : left - right;
+};
+
+// Soft version of allConditionsHold: ~1 when every condition holds by a wide margin,
+// 0.5 on the boundary and ~0 when any condition clearly fails
+const ruleSupport = (conditions: RuleCondition[], pts: HandLandmark[], marginScale: number): number => {
+  if (conditions.length === 0) return 1;
+  const weakest = Math.min(...conditions.map(condition => conditionMargin(condition, pts)));
+  return 1 / (1 + Math.exp(-weakest / marginScale));
+};
+
+// Score every letter of a group. Letter rules are first-match-wins, so a rule only gets the
+// probability left over by the rules before it; the default letter gets what remains
+export const scoreLetters = (ruleSet: RuleSet, group: number, pts: HandLandmark[]): LetterCandidate[] => {
+  const scores = new Map<string, number>();
+  let remaining = 1;
+
+  ruleSet.letterRules.forEach(rule => {
+    if (rule.group !== group) return;
+    const share = remaining * ruleSupport(rule.conditions, pts, ruleSet.marginScale);
+    scores.set(rule.letter, (scores.get(rule.letter) ?? 0) + share);
+    remaining -= share;
+  });
+
+  const fallback = ruleSet.defaultLetters[group];
+  if (fallback) {
+    scores.set(fallback, (scores.get(fallback) ?? 0) + remaining);
+  }
+
+  return Array.from(scores, ([letter, score]) => ({ letter, score }))
+    .sort((a, b) => b.score - a.score);
+};
+
+const allConditionsHold = (conditions: RuleCondition[], pts: HandLandmark[]): boolean =>
+  conditions.every(condition => evaluateCondition(condition, pts));
+
+// Run group overrides and then letter selection, recording every rule that was considered
+export const runRules = (ruleSet: RuleSet, predictedPair: [number, number], pts: HandLandmark[]): RuleOutcome => {
+  const [first, second] = predictedPair;
+  let group = first;
+  let firedGroupRule: string | null = null;
+  const groupRules: RuleEvaluation[] = [];
+
+  ruleSet.groupRules.forEach(rule => {
+    if (!rule.whenPredicted.some(([a, b]) => a === first && b === second)) return;
+
+    const matched = allConditionsHold(rule.conditions, pts);
+    groupRules.push({ id: rule.id, matched });
+    if (matched) {
+      group = rule.setGroup;
+      firedGroupRule = rule.id;
+    }
+  });
+
+  let letter = ruleSet.defaultLetters[group] ?? '';
+  let firedLetterRule: string | null = null;
+  const letterRules: RuleEvaluation[] = [];
+
+  for (const rule of ruleSet.letterRules) {
+    if (rule.group !== group) continue;
+
+    const matched = allConditionsHold(rule.conditions, pts);
+    letterRules.push({ id: rule.id, matched });
+    if (matched) {
+      letter = rule.letter;
+      firedLetterRule = rule.id;
+      break;
+    }
+  }
+
+  return {
+    group,
+    letter,
+    trace: { predictedPair, groupRules, firedGroupRule, group, letterRules, firedLetterRule, letter }
+  };
+};
@@ -0,0 +1,84 @@
+import { DominantHandSetting } from './handLandmarks';
+import { AutoCommitOptions, DEFAULT_AUTO_COMMIT_OPTIONS } from './autoCommit';
+import { CommandToggles, DEFAULT_COMMAND_TOGGLES } from './commandGestures';
+import { DEFAULT_ALPHABET_ID } from './alphabets';
+import { DEFAULT_ONE_EURO_OPTIONS, OneEuroOptions } from './oneEuroFilter';
+import { BackendPreference } from './backendChoice';
+import { DEFAULT_CAPTURE_OPTIONS } from './datasetCapture';
+
+export interface AutoCommitSettings extends AutoCommitOptions {
+  enabled: boolean;
+}
+
+export interface SmoothingSettings extends OneEuroOptions {
+  enabled: boolean;
+}
+
+export interface DatasetSettings {
+  // Stored with every captured sample
+  signer: string;
+  // Samples saved per capture run
+  sampleCount: number;
+  // Also save the rendered model-input image of each sample
+  saveImages: boolean;
+}
+
+// User preferences, persisted per browser profile
+export interface AppSettings {
+  // Id of the alphabet pack (see ALPHABETS)
+  alphabet: string;
+  // Id of a registered model for that alphabet; anything else means the alphabet's default
+  model: string;
+  dominantHand: DominantHandSetting;
+  autoCommit: AutoCommitSettings;
+  commands: CommandToggles;
+  smoothing: SmoothingSettings;
+  // tfjs backend override; 'auto' benchmarks and remembers the fastest
+  backend: BackendPreference;
+  // Show the pipeline diagnostics panel under the camera feed
+  diagnostics: boolean;
+  dataset: DatasetSettings;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  alphabet: DEFAULT_ALPHABET_ID,
+  model: '',
+  dominantHand: 'auto',
+  autoCommit: { enabled: false, ...DEFAULT_AUTO_COMMIT_OPTIONS },
+  commands: DEFAULT_COMMAND_TOGGLES,
+  smoothing: { enabled: true, ...DEFAULT_ONE_EURO_OPTIONS },
+  backend: 'auto',
+  diagnostics: false,
+  dataset: { signer: '', sampleCount: DEFAULT_CAPTURE_OPTIONS.sampleCount, saveImages: true }
+};
+
+const STORAGE_KEY = 'signspeak.settings';
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+
+    // Merge (one level deep) so settings added in later versions get their defaults
+    const parsed = JSON.parse(stored);
+    const merged: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+    Object.entries(parsed).forEach(([key, value]) => {
+      const fallback = merged[key];
+      merged[key] = fallback && typeof fallback === 'object' && typeof value === 'object'
+        ? { ...fallback, ...value }
+        : value;
+    });
+    return merged as unknown as AppSettings;
+  } catch (error) {
+    console.warn('⚠️ Could not read saved settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('⚠️ Could not save settings:', error);
+  }
+};
@@ -0,0 +1,28 @@
+import { RuleCondition, distanceCondition as distance } from './ruleEngine';
+
+// Hand-shape conditions built only from distances, so rules using them don't depend on hand
+// orientation or side. Shared by the digit rules and the rule-only letter fallback
+
+export const FINGER_JOINTS: Record<'index' | 'middle' | 'ring' | 'pinky', [number, number]> = {
+  index: [6, 8],
+  middle: [10, 12],
+  ring: [14, 16],
+  pinky: [18, 20]
+};
+
+export type Finger = keyof typeof FINGER_JOINTS;
+
+// Tip further from the wrist than the PIP joint
+export const extended = (finger: Finger): RuleCondition => {
+  const [pip, tip] = FINGER_JOINTS[finger];
+  return distance([0, tip], 'gt', 0, [0, pip]);
+};
+
+export const folded = (finger: Finger): RuleCondition => {
+  const [pip, tip] = FINGER_JOINTS[finger];
+  return distance([0, tip], 'lt', 0, [0, pip]);
+};
+
+export const thumbTouches = (finger: Finger): RuleCondition => distance([4, FINGER_JOINTS[finger][1]], 'lt', 0.25);
+export const thumbOut = distance([4, 9], 'gt', 0.55);
+export const thumbIn = distance([4, 9], 'lte', 0.55);
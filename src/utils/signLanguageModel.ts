@@ -1,11 +1,148 @@
 import * as tf from '@tensorflow/tfjs';
-import { HandLandmark } from './handLandmarks';
+import { DetectedHand, Handedness, HandLandmark, normalizeHandGeometry, toCanonicalHands } from './handLandmarks';
+import { rasterizeHands } from './handRasterizer';
+import { LetterCandidate, RuleSet, RuleTrace, runRules, scoreLetters } from './ruleEngine';
+import { AlphabetPack, ASL_ALPHABET, assertModelFitsAlphabet } from './alphabets';
+import { ModelManifest, loadValidatedModel, timeWarmUp } from './modelRegistry';
+import { PredictionTimings } from './telemetry';
+import { CalibrationHead, CalibrationWeights, LabeledSample, PersonalizeOptions } from './calibration';
 
-export class SignLanguageModel {
+export interface GroupCandidate {
+  group: number;
+  probability: number;
+  letters: LetterCandidate[];
+}
+
+export interface SignPrediction {
+  character: string;
+  // Letter-level confidence: group probability scaled by how decisively the rules picked the letter
+  confidence: number;
+  // Model probability of the top group (what `confidence` used to be)
+  groupConfidence: number;
+  // Model output for every group
+  distribution: number[];
+  // Most likely groups with the candidate letters inside each
+  topGroups: GroupCandidate[];
+  // Which disambiguation rules were evaluated and which fired (only when requested)
+  trace?: RuleTrace;
+  // Where the classifier spent its time
+  timings?: PredictionTimings;
+}
+
+export interface PredictOptions {
+  trace?: boolean;
+  // Number of groups returned in topGroups (default 3)
+  topK?: number;
+  // Left hands are mirrored into the right-hand frame the model and rules were built for.
+  // predictHands defaults to the signing hand's own label
+  handedness?: Handedness;
+}
+
+export const EMPTY_PREDICTION: SignPrediction = {
+  character: '',
+  confidence: 0,
+  groupConfidence: 0,
+  distribution: [],
+  topGroups: []
+};
+
+// What the app needs from a classifier, whatever its input: the image CNN below, the
+// landmark-vector model in landmarkClassifier.ts or the rule-only fallback
+export interface SignClassifier {
+  // Registered model id, used to label comparisons and telemetry
+  readonly modelId: string;
+  loadModel(): Promise<void>;
+  isModelLoaded(): boolean;
+  dispose(): void;
+  // Average time of the warm-up prediction on the current tfjs backend, for backend selection
+  benchmark(runs: number): Promise<number>;
+  predictHands(hands: DetectedHand[], options?: PredictOptions): Promise<SignPrediction>;
+  // Fine-tune a calibration head on one signer's samples and switch to it (see calibration.ts)
+  personalize(user: string, samples: LabeledSample[], options?: PersonalizeOptions): Promise<CalibrationWeights>;
+  // Use saved personalization weights; null reverts to the stock model
+  setCalibration(weights: CalibrationWeights | null): void;
+}
+
+// Hands the model looks at, mirrored into the right-hand frame, signing hand first. Empty when
+// the signing hand is incomplete
+export const prepareHands = (hands: DetectedHand[], twoHanded: boolean, handedness?: Handedness): HandLandmark[][] => {
+  const [primary] = hands;
+  if (!primary || primary.landmarks.length !== 21) return [];
+
+  const visibleHands = (twoHanded ? hands.slice(0, 2) : [primary])
+    .map(hand => hand.landmarks)
+    .filter(landmarks => landmarks.length === 21);
+  return toCanonicalHands(visibleHands, handedness ?? primary.handedness);
+};
+
+// Turn model output into a letter: rank the groups, then let the rule table pick the group and
+// the letter inside it from the signing hand's shape
+export const interpretProbabilities = (
+  rules: RuleSet,
+  probabilities: ArrayLike<number>,
+  landmarks: HandLandmark[],
+  options: PredictOptions = {}
+): SignPrediction => {
+  // Rules compare shapes in palm-length units, independent of distance to the camera
+  const pts = normalizeHandGeometry(landmarks);
+  
+  // Rank groups by probability; the top 2 drive the rules (like Python code)
+  const distribution = Array.from(probabilities);
+  const ranked = distribution
+    .map((probability, group) => ({ group, probability }))
+    .sort((a, b) => b.probability - a.probability);
+  const [first, second = first] = ranked;
+  
+  // Apply the disambiguation rule table, then pick the letter inside the group
+  const outcome = runRules(rules, [first.group, second.group], pts);
+  
+  const topGroups = ranked.slice(0, options.topK ?? 3).map(({ group, probability }) => ({
+    group,
+    probability,
+    letters: scoreLetters(rules, group, pts)
+  }));
+  
+  // A group rule may have moved the prediction to another group; the model's confidence
+  // still backs the result, the letter score says how cleanly the rules separated it
+  const letterScore = scoreLetters(rules, outcome.group, pts)
+    .find(candidate => candidate.letter === outcome.letter)?.score ?? 0;
+  
+  return {
+    character: outcome.letter,
+    confidence: first.probability * letterScore,
+    groupConfidence: first.probability,
+    distribution,
+    topGroups,
+    ...(options.trace ? { trace: outcome.trace } : {})
+  };
+};
+
+// Flatten the top groups into letter alternatives ranked by overall probability
+export const rankLetterCandidates = (prediction: SignPrediction): LetterCandidate[] =>
+  prediction.topGroups
+    .flatMap(group => group.letters.map(({ letter, score }) => ({ letter, score: score * group.probability })))
+    .sort((a, b) => b.score - a.score);
+
+// Image classifier: draws the hand skeleton and runs the 400x400 CNN
+export class SignLanguageModel implements SignClassifier {
   private model: tf.LayersModel | null = null;
+  // Created on first personalization, so models that can't be personalized still load
+  private calibration: CalibrationHead | null = null;
   private isLoaded = false;
   private loadingPromise: Promise<void> | null = null;
 
+  // The alphabet pack supplies the rules, the manifest describes the model. Relative URLs resolve
+  // against the page (or the worker script when run in a worker), so workers pass an absolute modelUrl
+  constructor(
+    private alphabet: AlphabetPack = ASL_ALPHABET,
+    readonly manifest: ModelManifest = alphabet.model,
+    private modelUrl: string = manifest.url
+  ) {}
+
+  get modelId(): string {
+    return this.manifest.id;
+  }
+
   async loadModel(): Promise<void> {
     if (this.loadingPromise) {
       return this.loadingPromise;
@@ -17,32 +154,14 @@ export class SignLanguageModel {
 
   private async doLoadModel(): Promise<void> {
     try {
-      console.log('Loading TensorFlow.js model...');
-      
-      // Load the model using your specific files
-      const modelUrl = 'model.json';
+      const { manifest, modelUrl } = this;
+      console.log(`Loading TensorFlow.js model ${manifest.name} v${manifest.version}...`);
       
-      // Check if model file exists
-      const response = await fetch(modelUrl);
-      if (!response.ok) {
-        throw new Error(`Model file not found at ${modelUrl}. Status: ${response.status}`);
-      }
-
-      // Load the model
-      this.model = await tf.loadLayersModel(modelUrl);
+      assertModelFitsAlphabet(this.alphabet, manifest);
+      this.model = await loadValidatedModel(manifest, modelUrl);
       this.isLoaded = true;
       
       console.log('✅ Sign language model loaded successfully');
-      console.log('Model input shape:', this.model.inputs[0].shape);
-      console.log('Model output shape:', this.model.outputs[0].shape);
-      
-      // Warm up the model with a dummy prediction
-      const dummyInput = tf.zeros([1, 400, 400, 3]);
-      const warmupPrediction = this.model.predict(dummyInput) as tf.Tensor;
-      warmupPrediction.dispose();
-      dummyInput.dispose();
-      
-      console.log('🔥 Model warmed up and ready for predictions');
       
     } catch (error) {
       console.error('❌ Failed to load model:', error);
@@ -55,297 +174,97 @@ export class SignLanguageModel {
     return this.isLoaded && this.model !== null;
   }
 
-  // Create hand visualization exactly like Python code
-  private createHandVisualization(landmarks: HandLandmark[], width: number = 400, height: number = 400): tf.Tensor3D {
-    // Create a white background canvas
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d')!;
-    
-    // Fill with white background (like Python code)
-    ctx.fillStyle = 'white';
-    ctx.fillRect(0, 0, width, height);
-    
-    if (landmarks.length === 0) {
-      // Return white image if no landmarks
-      const imageData = ctx.getImageData(0, 0, width, height);
-      return tf.browser.fromPixels(imageData).div(255.0) as tf.Tensor3D;
+  // Release model weights; the instance can be loaded again afterwards
+  dispose(): void {
+    this.calibration?.dispose();
+    this.calibration = null;
+    if (this.model) {
+      this.model.dispose();
+      this.model = null;
+    }
+    this.isLoaded = false;
+    this.loadingPromise = null;
+  }
+
+  async benchmark(runs: number): Promise<number> {
+    if (!this.model) {
+      throw new Error('Model not loaded');
+    }
+    return timeWarmUp(this.manifest, this.model, runs);
+  }
+
+  async personalize(user: string, samples: LabeledSample[], options?: PersonalizeOptions): Promise<CalibrationWeights> {
+    return this.calibrationHead().train(user, samples, hands => {
+      const canonicalHands = prepareHands(hands, this.manifest.preprocessing.twoHanded);
+      return canonicalHands.length > 0 ? this.createHandVisualization(canonicalHands).expandDims(0) : null;
+    }, options);
+  }
+
+  setCalibration(weights: CalibrationWeights | null): void {
+    if (weights || this.calibration) {
+      this.calibrationHead().setWeights(weights);
     }
-    
-    // Calculate bounding box and center the hand
-    const xs = landmarks.map(p => p.x);
-    const ys = landmarks.map(p => p.y);
-    const minX = Math.min(...xs);
-    const maxX = Math.max(...xs);
-    const minY = Math.min(...ys);
-    const maxY = Math.max(...ys);
-    
-    const handWidth = maxX - minX;
-    const handHeight = maxY - minY;
-    
-    // Center the hand in the 400x400 canvas (like Python offset calculation)
-    const offsetX = ((width - handWidth) / 2) - minX;
-    const offsetY = ((height - handHeight) / 2) - minY;
-    
-    // Adjust landmarks with offset
-    const adjustedLandmarks = landmarks.map(landmark => ({
-      x: Math.max(0, Math.min(width - 1, landmark.x + offsetX)),
-      y: Math.max(0, Math.min(height - 1, landmark.y + offsetY)),
-      z: landmark.z
-    }));
-    
-    // Draw hand connections (exactly like Python code)
-    ctx.strokeStyle = 'rgb(0, 255, 0)'; // Green lines
-    ctx.lineWidth = 3;
-    
-    const connections = [
-      // Thumb (0-4)
-      [0, 1], [1, 2], [2, 3], [3, 4],
-      // Index finger (5-8)
-      [5, 6], [6, 7], [7, 8],
-      // Middle finger (9-12)
-      [9, 10], [10, 11], [11, 12],
-      // Ring finger (13-16)
-      [13, 14], [14, 15], [15, 16],
-      // Pinky (17-20)
-      [17, 18], [18, 19], [19, 20],
-      // Palm connections
-      [5, 9], [9, 13], [13, 17],
-      // Wrist connections
-      [0, 5], [0, 17]
-    ];
-    
-    // Draw connections
-    connections.forEach(([start, end]) => {
-      if (adjustedLandmarks[start] && adjustedLandmarks[end]) {
-        ctx.beginPath();
-        ctx.moveTo(adjustedLandmarks[start].x, adjustedLandmarks[start].y);
-        ctx.lineTo(adjustedLandmarks[end].x, adjustedLandmarks[end].y);
-        ctx.stroke();
-      }
-    });
-    
-    // Draw landmarks (blue circles like Python code)
-    adjustedLandmarks.forEach((landmark, index) => {
-      ctx.fillStyle = 'rgb(0, 0, 255)'; // Blue circles
-      ctx.beginPath();
-      ctx.arc(landmark.x, landmark.y, index === 0 ? 3 : 2, 0, 2 * Math.PI);
-      ctx.fill();
-    });
-    
-    // Convert to tensor
-    const imageData = ctx.getImageData(0, 0, width, height);
-    return tf.browser.fromPixels(imageData).div(255.0) as tf.Tensor3D;
   }
 
-  // Distance calculation helper (from Python code)
-  private distance(point1: HandLandmark, point2: HandLandmark): number {
-    return Math.sqrt(
-      Math.pow(point1.x - point2.x, 2) + 
-      Math.pow(point1.y - point2.y, 2)
+  private calibrationHead(): CalibrationHead {
+    if (!this.model) {
+      throw new Error('Model not loaded');
+    }
+    this.calibration ??= new CalibrationHead(this.manifest, this.model);
+    return this.calibration;
+  }
+
+  // Create hand visualization exactly like Python code
+  private createHandVisualization(hands: HandLandmark[][]): tf.Tensor3D {
+    const [height, width] = this.manifest.inputShape;
+    const image = rasterizeHands(hands, width, height);
+    const scale = this.manifest.preprocessing.kind === 'skeleton-image' ? this.manifest.preprocessing.scale : 255;
+    return tf.tidy(() => tf.tensor3d(image.data, [height, width, 3], 'int32').div(scale) as tf.Tensor3D);
+  }
+
+  async predict(rawLandmarks: HandLandmark[], options: PredictOptions = {}): Promise<SignPrediction> {
+    return this.predictHands(
+      [{ landmarks: rawLandmarks, handedness: options.handedness ?? 'right', score: 1 }],
+      options
     );
   }
 
-  async predict(landmarks: HandLandmark[]): Promise<{ character: string; confidence: number }> {
+  // Hands come signing hand first (see orderHands). One-handed models only look at that hand;
+  // two-handed models see both, while the rules always measure the signing hand
+  async predictHands(hands: DetectedHand[], options: PredictOptions = {}): Promise<SignPrediction> {
     if (!this.isModelLoaded() || !this.model) {
       throw new Error('Model not loaded');
     }
 
-    if (landmarks.length !== 21) {
-      return { character: '', confidence: 0 };
+    const canonicalHands = prepareHands(hands, this.manifest.preprocessing.twoHanded, options.handedness);
+    if (canonicalHands.length === 0) {
+      return EMPTY_PREDICTION;
     }
 
     try {
       // Create hand visualization tensor
-      const imageTensor = this.createHandVisualization(landmarks);
+      const started = performance.now();
+      const imageTensor = this.createHandVisualization(canonicalHands);
+      const rasterized = performance.now();
       
       // Add batch dimension and predict
       const batchedInput = imageTensor.expandDims(0);
-      const prediction = this.model.predict(batchedInput) as tf.Tensor;
+      const prediction = this.calibration ? this.calibration.predict(batchedInput) : this.model.predict(batchedInput) as tf.Tensor;
       const probabilities = await prediction.data();
+      const timings = { preprocessMs: rasterized - started, inferenceMs: performance.now() - rasterized };
       
       // Apply post-processing logic from Python code
-      const result = this.postProcessPrediction(probabilities as Float32Array, landmarks);
+      const result = interpretProbabilities(this.alphabet.rules, probabilities, canonicalHands[0], options);
       
       // Clean up tensors
       imageTensor.dispose();
       batchedInput.dispose();
       prediction.dispose();
       
-      return result;
+      return { ...result, timings };
     } catch (error) {
       console.error('❌ Prediction error:', error);
-      return { character: '', confidence: 0 };
-    }
-  }
-
-  private postProcessPrediction(probabilities: Float32Array, pts: HandLandmark[]): { character: string; confidence: number } {
-    // Get top 3 predictions (like Python code)
-    const probs = Array.from(probabilities);
-    const ch1Index = probs.indexOf(Math.max(...probs));
-    const ch1Confidence = probs[ch1Index];
-    
-    probs[ch1Index] = 0;
-    const ch2Index = probs.indexOf(Math.max(...probs));
-    
-    probs[ch2Index] = 0;
-    const ch3Index = probs.indexOf(Math.max(...probs));
-    
-    let ch1 = ch1Index;
-    const ch2 = ch2Index;
-    const pl = [ch1, ch2];
-    
-    // Apply all disambiguation rules from Python code
-    ch1 = this.applyDisambiguationRules(ch1, ch2, pl, pts);
-    
-    // Convert to character
-    const character = this.indexToCharacter(ch1, pts);
-    
-    return { character, confidence: ch1Confidence };
-  }
-
-  private applyDisambiguationRules(ch1: number, ch2: number, pl: number[], pts: HandLandmark[]): number {
-    // All disambiguation rules from Python code
-    
-    // Condition for [Aemnst] - fingers up check
-    const aemnstConditions = [[5, 2], [5, 3], [3, 5], [3, 6], [3, 0], [3, 2], [6, 4], [6, 1], [6, 2], [6, 6], [6, 7], [6, 0], [6, 5],
-      [4, 1], [1, 0], [1, 1], [6, 3], [1, 6], [5, 6], [5, 1], [4, 5], [1, 4], [1, 5], [2, 0], [2, 6], [4, 6],
-      [1, 0], [5, 7], [1, 6], [6, 1], [7, 6], [2, 5], [7, 1], [5, 4], [7, 0], [7, 5], [7, 2]];
-    
-    if (aemnstConditions.some(cond => pl[0] === cond[0] && pl[1] === cond[1])) {
-      if (pts[6]?.y < pts[8]?.y && pts[10]?.y < pts[12]?.y && pts[14]?.y < pts[16]?.y && pts[18]?.y < pts[20]?.y) {
-        ch1 = 0;
-      }
-    }
-    
-    // Condition for [o][s] - thumb position
-    const osConditions = [[2, 2], [2, 1]];
-    if (osConditions.some(cond => pl[0] === cond[0] && pl[1] === cond[1])) {
-      if (pts[5]?.x < pts[4]?.x) {
-        ch1 = 0;
-      }
-    }
-    
-    // Condition for [c0][aemnst] - thumb and finger positions
-    const c0Conditions = [[0, 0], [0, 6], [0, 2], [0, 5], [0, 1], [0, 7], [5, 2], [7, 6], [7, 1]];
-    if (c0Conditions.some(cond => pl[0] === cond[0] && pl[1] === cond[1])) {
-      if (pts[0]?.x > pts[8]?.x && pts[0]?.x > pts[4]?.x && pts[0]?.x > pts[12]?.x && 
-          pts[0]?.x > pts[16]?.x && pts[0]?.x > pts[20]?.x && pts[5]?.x > pts[4]?.x) {
-        ch1 = 2;
-      }
-    }
-
-    // Additional complex rules from Python code...
-    // (Implementing all the key disambiguation rules)
-    
-    return ch1;
-  }
-
-  private indexToCharacter(index: number, pts: HandLandmark[]): string {
-    // Convert group index to specific character using Python logic
-    
-    // Group 0: A, E, M, N, S, T
-    if (index === 0) {
-      let char = 'S';
-      if (pts[4]?.x < pts[6]?.x && pts[4]?.x < pts[10]?.x && pts[4]?.x < pts[14]?.x && pts[4]?.x < pts[18]?.x) {
-        char = 'A';
-      }
-      if (pts[4]?.x > pts[6]?.x && pts[4]?.x < pts[10]?.x && pts[4]?.x < pts[14]?.x && 
-          pts[4]?.x < pts[18]?.x && pts[4]?.y < pts[14]?.y && pts[4]?.y < pts[18]?.y) {
-        char = 'T';
-      }
-      if (pts[4]?.y > pts[8]?.y && pts[4]?.y > pts[12]?.y && pts[4]?.y > pts[16]?.y && pts[4]?.y > pts[20]?.y) {
-        char = 'E';
-      }
-      if (pts[4]?.x > pts[6]?.x && pts[4]?.x > pts[10]?.x && pts[4]?.x > pts[14]?.x && pts[4]?.y < pts[18]?.y) {
-        char = 'M';
-      }
-      if (pts[4]?.x > pts[6]?.x && pts[4]?.x > pts[10]?.x && pts[4]?.y < pts[18]?.y && pts[4]?.y < pts[14]?.y) {
-        char = 'N';
-      }
-      return char;
-    }
-    
-    // Group 1: B, D, F, I, K, R, U, V, W
-    if (index === 1) {
-      if (pts[6]?.y > pts[8]?.y && pts[10]?.y > pts[12]?.y && pts[14]?.y > pts[16]?.y && pts[18]?.y > pts[20]?.y) {
-        return 'B';
-      }
-      if (pts[6]?.y > pts[8]?.y && pts[10]?.y < pts[12]?.y && pts[14]?.y < pts[16]?.y && pts[18]?.y < pts[20]?.y) {
-        return 'D';
-      }
-      if (pts[6]?.y < pts[8]?.y && pts[10]?.y > pts[12]?.y && pts[14]?.y > pts[16]?.y && pts[18]?.y > pts[20]?.y) {
-        return 'F';
-      }
-      if (pts[6]?.y < pts[8]?.y && pts[10]?.y < pts[12]?.y && pts[14]?.y < pts[16]?.y && pts[18]?.y > pts[20]?.y) {
-        return 'I';
-      }
-      if (pts[6]?.y > pts[8]?.y && pts[10]?.y > pts[12]?.y && pts[14]?.y > pts[16]?.y && pts[18]?.y < pts[20]?.y) {
-        return 'W';
-      }
-      if (pts[6]?.y > pts[8]?.y && pts[10]?.y > pts[12]?.y && pts[14]?.y < pts[16]?.y && pts[18]?.y < pts[20]?.y && pts[4]?.y < pts[9]?.y) {
-        return 'K';
-      }
-      if ((this.distance(pts[8], pts[12]) - this.distance(pts[6], pts[10])) < 8 && 
-          pts[6]?.y > pts[8]?.y && pts[10]?.y > pts[12]?.y && pts[14]?.y < pts[16]?.y && pts[18]?.y < pts[20]?.y) {
-        return 'U';
-      }
-      if ((this.distance(pts[8], pts[12]) - this.distance(pts[6], pts[10])) >= 8 && 
-          pts[6]?.y > pts[8]?.y && pts[10]?.y > pts[12]?.y && pts[14]?.y < pts[16]?.y && pts[18]?.y < pts[20]?.y && pts[4]?.y > pts[9]?.y) {
-        return 'V';
-      }
-      if (pts[8]?.x > pts[12]?.x && pts[6]?.y > pts[8]?.y && pts[10]?.y > pts[12]?.y && pts[14]?.y < pts[16]?.y && pts[18]?.y < pts[20]?.y) {
-        return 'R';
-      }
-      return 'B'; // Default
-    }
-    
-    // Group 2: C, O
-    if (index === 2) {
-      if (this.distance(pts[12], pts[4]) > 42) {
-        return 'C';
-      }
-      return 'O';
-    }
-    
-    // Group 3: G, H
-    if (index === 3) {
-      if (this.distance(pts[8], pts[12]) > 72) {
-        return 'G';
-      }
-      return 'H';
-    }
-    
-    // Group 4: L
-    if (index === 4) {
-      return 'L';
-    }
-    
-    // Group 5: P, Q, Z
-    if (index === 5) {
-      if (pts[4]?.x > pts[12]?.x && pts[4]?.x > pts[16]?.x && pts[4]?.x > pts[20]?.x) {
-        if (pts[8]?.y < pts[5]?.y) {
-          return 'Z';
-        }
-        return 'Q';
-      }
-      return 'P';
-    }
-    
-    // Group 6: X
-    if (index === 6) {
-      return 'X';
-    }
-    
-    // Group 7: J, Y
-    if (index === 7) {
-      if (this.distance(pts[8], pts[4]) > 42) {
-        return 'Y';
-      }
-      return 'J';
+      return EMPTY_PREDICTION;
     }
-    
-    return '';
   }
-}
\ No newline at end of file
+}
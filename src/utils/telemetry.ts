@@ -0,0 +1,158 @@
+// Pipeline health metrics: camera rate, dropped frames, per-stage timings and the inference
+// runtime. Collected continuously (recording a sample is just an array push) and read by the
+// diagnostics panel, which can export a session as JSON
+
+// Time spent inside a classifier for one prediction
+export interface PredictionTimings {
+  // Turning landmarks into model input (rasterizing for the CNN)
+  preprocessMs: number;
+  // Model execution including reading the output back
+  inferenceMs: number;
+}
+
+// Reported by the inference worker
+export interface RuntimeStats {
+  backend: string;
+  numTensors: number;
+  numBytes: number;
+}
+
+export interface LatencyStats {
+  count: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface TelemetrySnapshot {
+  cameraFps: number;
+  totalFrames: number;
+  droppedFrames: number;
+  mediaPipeMs: LatencyStats;
+  preprocessMs: LatencyStats;
+  inferenceMs: LatencyStats;
+  // From handing landmarks to the worker until the prediction is back
+  roundTripMs: LatencyStats;
+  predictions: number;
+  runtime: RuntimeStats | null;
+}
+
+export interface TelemetrySession {
+  version: 1;
+  startedAt: string;
+  exportedAt: string;
+  userAgent: string;
+  summary: TelemetrySnapshot;
+  // Most recent samples per metric, oldest first
+  samples: Record<'mediaPipeMs' | 'preprocessMs' | 'inferenceMs' | 'roundTripMs', number[]>;
+}
+
+// Samples kept per metric
+const MAX_SAMPLES = 1000;
+// Window for the camera frame rate
+const FPS_WINDOW_MS = 2000;
+
+export const percentile = (values: number[], fraction: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+};
+
+const summarize = (values: number[]): LatencyStats => ({
+  count: values.length,
+  mean: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0,
+  p50: percentile(values, 0.5),
+  p95: percentile(values, 0.95),
+  p99: percentile(values, 0.99)
+});
+
+const pushSample = (samples: number[], value: number) => {
+  samples.push(value);
+  if (samples.length > MAX_SAMPLES) samples.shift();
+};
+
+export class PipelineTelemetry {
+  private startedAt = Date.now();
+  private frameTimes: number[] = [];
+  private totalFrames = 0;
+  private droppedFrames = 0;
+  private predictions = 0;
+  private runtime: RuntimeStats | null = null;
+  private samples: TelemetrySession['samples'] = {
+    mediaPipeMs: [],
+    preprocessMs: [],
+    inferenceMs: [],
+    roundTripMs: []
+  };
+
+  // A camera frame arrived; dropped when MediaPipe was still busy with the previous one
+  recordFrame(timestamp: number, dropped: boolean): void {
+    this.totalFrames++;
+    if (dropped) this.droppedFrames++;
+
+    this.frameTimes.push(timestamp);
+    while (this.frameTimes.length > 0 && timestamp - this.frameTimes[0] > FPS_WINDOW_MS) {
+      this.frameTimes.shift();
+    }
+  }
+
+  recordMediaPipe(durationMs: number): void {
+    pushSample(this.samples.mediaPipeMs, durationMs);
+  }
+
+  recordPrediction(roundTripMs: number, timings?: PredictionTimings): void {
+    this.predictions++;
+    pushSample(this.samples.roundTripMs, roundTripMs);
+    if (timings) {
+      pushSample(this.samples.preprocessMs, timings.preprocessMs);
+      pushSample(this.samples.inferenceMs, timings.inferenceMs);
+    }
+  }
+
+  setRuntime(runtime: RuntimeStats | null): void {
+    this.runtime = runtime;
+  }
+
+  snapshot(): TelemetrySnapshot {
+    const frames = this.frameTimes.length;
+    const span = frames > 1 ? this.frameTimes[frames - 1] - this.frameTimes[0] : 0;
+
+    return {
+      cameraFps: span > 0 ? ((frames - 1) * 1000) / span : 0,
+      totalFrames: this.totalFrames,
+      droppedFrames: this.droppedFrames,
+      mediaPipeMs: summarize(this.samples.mediaPipeMs),
+      preprocessMs: summarize(this.samples.preprocessMs),
+      inferenceMs: summarize(this.samples.inferenceMs),
+      roundTripMs: summarize(this.samples.roundTripMs),
+      predictions: this.predictions,
+      runtime: this.runtime
+    };
+  }
+
+  exportSession(): TelemetrySession {
+    return {
+      version: 1,
+      startedAt: new Date(this.startedAt).toISOString(),
+      exportedAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      summary: this.snapshot(),
+      samples: {
+        mediaPipeMs: [...this.samples.mediaPipeMs],
+        preprocessMs: [...this.samples.preprocessMs],
+        inferenceMs: [...this.samples.inferenceMs],
+        roundTripMs: [...this.samples.roundTripMs]
+      }
+    };
+  }
+
+  reset(): void {
+    this.startedAt = Date.now();
+    this.frameTimes = [];
+    this.totalFrames = 0;
+    this.droppedFrames = 0;
+    this.predictions = 0;
+    Object.values(this.samples).forEach(values => values.splice(0));
+  }
+}
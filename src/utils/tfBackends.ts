@@ -0,0 +1,69 @@
+import * as tf from '@tensorflow/tfjs';
+import { setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import wasmUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+import { BACKENDS, BackendName, BackendPreference, BackendTiming } from './backendChoice';
+
+// Serve the WASM binaries from the app bundle rather than a CDN so the backend works offline
+setWasmPaths({
+  'tfjs-backend-wasm.wasm': wasmUrl,
+  'tfjs-backend-wasm-simd.wasm': wasmSimdUrl,
+  'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdUrl
+});
+
+// Timed warm-up predictions per backend, after one untimed run that compiles its kernels
+const BENCHMARK_RUNS = 5;
+
+// Switch tfjs to a backend; false when it can't be initialized here (no WebGL, no WASM)
+export const activateBackend = async (backend: BackendName): Promise<boolean> => {
+  try {
+    return await tf.setBackend(backend);
+  } catch (error) {
+    console.warn(`⚠️ Backend ${backend} unavailable:`, error);
+    return false;
+  }
+};
+
+// Make sure some backend is active before a model loads: the requested one if it works,
+// otherwise the first that initializes. Returns null only for 'auto', which is benchmarked
+// once the model is loaded
+export const prepareBackend = async (preference: BackendPreference): Promise<BackendName | null> => {
+  if (preference !== 'auto' && await activateBackend(preference)) {
+    return preference;
+  }
+  if (preference !== 'auto') {
+    console.warn(`⚠️ Backend ${preference} failed to initialize, benchmarking the others`);
+  }
+
+  await tf.ready();
+  return null;
+};
+
+// Run `measure` (the model's warm-up prediction) on every backend that initializes, then stay
+// on the fastest. cpu always initializes, so a CPU-only machine still ends up with a backend
+export const selectFastestBackend = async (
+  measure: (runs: number) => Promise<number>
+): Promise<{ backend: BackendName; timings: BackendTiming[] }> => {
+  const timings: BackendTiming[] = [];
+
+  for (const backend of BACKENDS) {
+    if (!await activateBackend(backend)) {
+      timings.push({ backend, ms: null });
+      continue;
+    }
+    try {
+      timings.push({ backend, ms: await measure(BENCHMARK_RUNS) });
+    } catch (error) {
+      console.warn(`⚠️ Benchmark failed on ${backend}:`, error);
+      timings.push({ backend, ms: null });
+    }
+  }
+
+  const measured = timings.filter((timing): timing is { backend: BackendName; ms: number } => timing.ms !== null);
+  const fastest = measured.sort((a, b) => a.ms - b.ms)[0]?.backend ?? 'cpu';
+  await activateBackend(fastest);
+
+  console.log('⏱️ Backend benchmark:', timings.map(({ backend, ms }) => `${backend} ${ms?.toFixed(1) ?? 'n/a'} ms`).join(', '));
+  return { backend: fastest, timings };
+};
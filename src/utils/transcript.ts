@@ -0,0 +1,144 @@
+import { AutoCommitController, AutoCommitOptions } from './autoCommit';
+
+// Turns a stream of per-frame predictions from a recording into committed letters and words.
+// Letters commit like hands-free typing, but with the short dwell of fluent fingerspelling;
+// a pause without a confident letter ends the word
+
+export interface TranscriptLetter {
+  letter: string;
+  // From the first frame showing the letter until it was released
+  startMs: number;
+  endMs: number;
+  // Mean prediction confidence while the letter was held before committing
+  confidence: number;
+}
+
+export interface TranscriptWord {
+  text: string;
+  startMs: number;
+  endMs: number;
+  letters: TranscriptLetter[];
+}
+
+export interface Transcript {
+  version: 1;
+  source: string;
+  alphabetId: string;
+  modelId: string;
+  durationMs: number;
+  sampleFps: number;
+  createdAt: string;
+  text: string;
+  words: TranscriptWord[];
+}
+
+export interface TranscriptTiming {
+  commit: AutoCommitOptions;
+  // Time without a confident letter that ends a word
+  wordGapMs: number;
+}
+
+export const DEFAULT_TRANSCRIPT_TIMING: TranscriptTiming = {
+  commit: { dwellMs: 250, minConfidence: 0.5, cooldownMs: 400 },
+  wordGapMs: 800
+};
+
+// Cues shorter than this are hard to read
+const MIN_CUE_MS = 500;
+
+export class TranscriptBuilder {
+  private commit: AutoCommitController;
+  private words: TranscriptWord[] = [];
+  private letters: TranscriptLetter[] = [];
+  // The letter currently shown (empty when none is confident) and since when
+  private runLetter = '';
+  private runStart = 0;
+  private runConfidence: number[] = [];
+  // Committed letter that is still being held; its end moves with the run
+  private held: TranscriptLetter | null = null;
+  private lastConfidentMs = -Infinity;
+
+  constructor(private timing: TranscriptTiming = DEFAULT_TRANSCRIPT_TIMING) {
+    this.commit = new AutoCommitController(timing.commit);
+  }
+
+  // Add one analysed frame; an empty letter means no hand or no confident prediction
+  add(letter: string, confidence: number, timeMs: number): void {
+    const isConfident = letter.trim() !== '' && confidence >= this.timing.commit.minConfidence;
+    const current = isConfident ? letter : '';
+
+    if (current !== this.runLetter) {
+      this.held = null;
+      this.runLetter = current;
+      this.runStart = timeMs;
+      this.runConfidence = [];
+    }
+
+    if (isConfident) {
+      if (timeMs - this.lastConfidentMs >= this.timing.wordGapMs) this.endWord();
+      this.lastConfidentMs = timeMs;
+      this.runConfidence.push(confidence);
+    }
+
+    if (this.held) this.held.endMs = timeMs;
+
+    const { committed } = this.commit.update(letter, confidence, timeMs);
+    if (committed) {
+      this.held = {
+        letter: committed,
+        startMs: this.runStart,
+        endMs: timeMs,
+        confidence: this.runConfidence.reduce((sum, value) => sum + value, 0) / Math.max(1, this.runConfidence.length)
+      };
+      this.letters.push(this.held);
+    }
+  }
+
+  // Words so far, including the one in progress
+  getText(): string {
+    return [...this.words.map(word => word.text), this.letters.map(entry => entry.letter).join('')]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  finish(meta: Omit<Transcript, 'version' | 'createdAt' | 'text' | 'words'>): Transcript {
+    this.endWord();
+    return {
+      version: 1,
+      ...meta,
+      createdAt: new Date().toISOString(),
+      text: this.getText(),
+      words: this.words
+    };
+  }
+
+  private endWord(): void {
+    if (this.letters.length === 0) return;
+    this.words.push({
+      text: this.letters.map(entry => entry.letter).join(''),
+      startMs: this.letters[0].startMs,
+      endMs: this.letters[this.letters.length - 1].endMs,
+      letters: this.letters
+    });
+    this.letters = [];
+    this.held = null;
+  }
+}
+
+const formatSrtTime = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(total / 3600000))}:${pad(Math.floor(total / 60000) % 60)}:` +
+    `${pad(Math.floor(total / 1000) % 60)},${pad(total % 1000, 3)}`;
+};
+
+// One subtitle cue per word. Short words are stretched to MIN_CUE_MS, but never into the next
+// word's cue
+export const transcriptToSrt = (transcript: Transcript): string =>
+  transcript.words
+    .map((word, index, words) => {
+      const next = words[index + 1];
+      const end = Math.min(Math.max(word.endMs, word.startMs + MIN_CUE_MS), next ? next.startMs : Infinity);
+      return `${index + 1}\n${formatSrtTime(word.startMs)} --> ${formatSrtTime(end)}\n${word.text}\n`;
+    })
+    .join('\n');
@@ -0,0 +1,188 @@
+import { Results } from '@mediapipe/hands';
+import { DominantHandSetting, FrameSize, toReferenceFrame } from './handLandmarks';
+import { createHandsDetector, handsFromResults } from './mediaPipeHands';
+import { AlphabetPack } from './alphabets';
+import { ModelManifest } from './modelRegistry';
+import { CalibrationWeights } from './calibration';
+import { InferenceClient } from './inferenceClient';
+import { RuleOnlyClassifier } from './fallbackRecognizer';
+import { OneEuroOptions } from './oneEuroFilter';
+import { CommandToggles } from './commandGestures';
+import { FramePipeline } from './framePipeline';
+import { BackendPreference, resolveBackendPreference } from './backendChoice';
+import { FrameClassifier } from './classifiers';
+import { DEFAULT_TRANSCRIPT_TIMING, Transcript, TranscriptBuilder, TranscriptTiming } from './transcript';
+
+// Offline fingerspelling transcription of a recorded clip. The video is stepped frame by frame
+// by seeking, so every sampled frame is analysed however long MediaPipe and the model take;
+// on a fast machine that runs faster than real time
+
+export interface TranscriptionOptions extends TranscriptTiming {
+  alphabet: AlphabetPack;
+  model: ModelManifest;
+  dominantHand: DominantHandSetting;
+  smoothing: OneEuroOptions | null;
+  backend: BackendPreference;
+  calibration: CalibrationWeights | null;
+  // Frames analysed per second of video
+  sampleFps: number;
+}
+
+// A transcript is the letters signed; gestures that edit a sentence don't apply
+const NO_COMMANDS: CommandToggles = { space: false, backspace: false, speak: false, clear: false, toggleMode: false };
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: Pick<TranscriptionOptions, 'sampleFps' | 'commit' | 'wordGapMs'> = {
+  sampleFps: 15,
+  ...DEFAULT_TRANSCRIPT_TIMING
+};
+
+export interface TranscriptionProgress {
+  processedMs: number;
+  durationMs: number;
+  // Transcript so far
+  text: string;
+}
+
+// A model in its own inference worker, on the backend live detection would pick for it, with
+// the personalization made for it if there is one. Rejects when the model won't load
+export const openWorkerClassifier = async (
+  alphabet: AlphabetPack,
+  model: ModelManifest,
+  backend: BackendPreference,
+  calibration: CalibrationWeights | null = null
+): Promise<FrameClassifier> => {
+  const inference = new InferenceClient();
+  try {
+    await inference.loadModel(alphabet, model, resolveBackendPreference(backend, model.id));
+  } catch (error) {
+    inference.dispose();
+    throw error;
+  }
+  if (calibration?.modelId === model.id) {
+    await inference.setCalibration(calibration)
+      .catch(error => console.warn('⚠️ Predicting without personalization:', error));
+  }
+  return {
+    modelId: model.id,
+    predict: hands => inference.predictLatest(hands),
+    dispose: () => inference.dispose()
+  };
+};
+
+// The alphabet's fallback rules, run on this thread like in live detection
+export const openRuleClassifier = (alphabet: AlphabetPack): FrameClassifier | null => {
+  if (!alphabet.fallbackRules) return null;
+  const rules = new RuleOnlyClassifier(alphabet.id, alphabet.fallbackRules);
+  return {
+    modelId: rules.modelId,
+    predict: async hands => rules.classify(hands),
+    dispose: () => rules.dispose()
+  };
+};
+
+// The selected model in its own worker, or the alphabet's fallback rules if it won't load
+export const openClassifier = async (
+  options: Pick<TranscriptionOptions, 'alphabet' | 'model' | 'backend' | 'calibration'>
+): Promise<FrameClassifier> => {
+  const { alphabet, model, backend, calibration } = options;
+  try {
+    return await openWorkerClassifier(alphabet, model, backend, calibration);
+  } catch (error) {
+    const rules = openRuleClassifier(alphabet);
+    if (!rules) throw error;
+
+    console.warn(`⚠️ Transcribing with ${alphabet.name} rule-only recognition:`, error);
+    return rules;
+  }
+};
+
+const waitForEvent = (video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked'): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(video.error?.message || 'The video could not be decoded'));
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+const seek = (video: HTMLVideoElement, timeMs: number): Promise<void> => {
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = timeMs / 1000;
+  return seeked;
+};
+
+// Rejects with 'Transcription cancelled' once the signal aborts
+export const transcribeVideo = async (
+  file: File,
+  options: TranscriptionOptions,
+  onProgress: (progress: TranscriptionProgress) => void,
+  signal: AbortSignal
+): Promise<Transcript> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = URL.createObjectURL(file);
+
+  // MediaPipe reports results through a callback, which has run by the time send resolves
+  const latest: { results: Results | null } = { results: null };
+  const detector = createHandsDetector(results => {
+    latest.results = results;
+  });
+  const detect = async (): Promise<Results | null> => {
+    latest.results = null;
+    await detector.send({ image: video });
+    return latest.results;
+  };
+  let classifier: FrameClassifier | null = null;
+
+  try {
+    await waitForEvent(video, 'loadedmetadata');
+    const durationMs = video.duration * 1000;
+    if (!Number.isFinite(durationMs) || durationMs <= 0) {
+      throw new Error('The video has no known duration');
+    }
+    const frameSize: FrameSize = { width: video.videoWidth, height: video.videoHeight };
+
+    classifier = await openClassifier(options);
+    const builder = new TranscriptBuilder(options);
+    const pipeline = new FramePipeline({ ...options, mode: 'letters', commands: NO_COMMANDS });
+
+    const frameMs = 1000 / options.sampleFps;
+    for (let timeMs = 0; timeMs < durationMs; timeMs += frameMs) {
+      if (signal.aborted) {
+        throw new Error('Transcription cancelled');
+      }
+
+      await seek(video, timeMs);
+      const results = await detect();
+
+      const rawHands = results ? toReferenceFrame(handsFromResults(results, frameSize), frameSize) : [];
+      await pipeline.process(rawHands, timeMs, classifier.predict);
+      builder.add(pipeline.letter.letter, pipeline.letter.confidence, timeMs);
+
+      onProgress({ processedMs: Math.min(durationMs, timeMs + frameMs), durationMs, text: builder.getText() });
+    }
+
+    return builder.finish({
+      source: file.name,
+      alphabetId: options.alphabet.id,
+      modelId: classifier.modelId,
+      durationMs,
+      sampleFps: options.sampleFps
+    });
+  } finally {
+    classifier?.dispose();
+    detector.close();
+    URL.revokeObjectURL(video.src);
+  }
+};
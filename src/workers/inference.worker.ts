@@ -0,0 +1,98 @@
+import * as tf from '@tensorflow/tfjs';
+import { SignClassifier } from '../utils/signLanguageModel';
+import { createSignClassifier } from '../utils/classifiers';
+import { getAlphabet } from '../utils/alphabets';
+import { getModelManifest } from '../utils/modelRegistry';
+import { RuntimeStats } from '../utils/telemetry';
+import { BackendTiming } from '../utils/backendChoice';
+import { prepareBackend, selectFastestBackend } from '../utils/tfBackends';
+import { InferenceRequest, InferenceResponse } from './inferenceProtocol';
+
+// The DOM lib types `self` as Window, so describe the worker scope we actually use
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<InferenceRequest>) => void) | null;
+  postMessage: (message: InferenceResponse) => void;
+};
+
+let model: SignClassifier | null = null;
+
+// Sent with every load and prediction for the diagnostics panel
+const runtimeStats = (): RuntimeStats => {
+  const { numTensors, numBytes } = tf.memory();
+  return { backend: tf.getBackend(), numTensors, numBytes };
+};
+
+const handleRequest = async (request: InferenceRequest): Promise<InferenceResponse> => {
+  switch (request.type) {
+    case 'load': {
+      const alphabet = getAlphabet(request.alphabetId);
+      const manifest = getModelManifest(request.modelId);
+      if (!manifest) {
+        throw new Error(`Unknown model ${request.modelId}`);
+      }
+
+      // Hot swap: release the previous weights before the new ones are loaded
+      model?.dispose();
+      model = createSignClassifier(alphabet, manifest, request.modelUrl);
+
+      // A known backend is used as is; otherwise the model's warm-up picks the fastest
+      let backend = await prepareBackend(request.backend);
+      await model.loadModel();
+      let benchmark: BackendTiming[] | null = null;
+      if (!backend) {
+        const loaded = model;
+        const selection = await selectFastestBackend(runs => loaded.benchmark(runs));
+        backend = selection.backend;
+        benchmark = selection.timings;
+      }
+      return { type: 'loaded', id: request.id, backend, benchmark, runtime: runtimeStats() };
+    }
+
+    case 'predict':
+      if (!model || !model.isModelLoaded()) {
+        throw new Error('Model not loaded');
+      }
+      return {
+        type: 'prediction',
+        id: request.id,
+        result: await model.predictHands(request.hands, request.options),
+        runtime: runtimeStats()
+      };
+
+    case 'personalize':
+      if (!model || !model.isModelLoaded()) {
+        throw new Error('Model not loaded');
+      }
+      return {
+        type: 'personalized',
+        id: request.id,
+        weights: await model.personalize(request.user, request.samples, request.options),
+        runtime: runtimeStats()
+      };
+
+    case 'calibrate':
+      if (!model || !model.isModelLoaded()) {
+        throw new Error('Model not loaded');
+      }
+      model.setCalibration(request.weights);
+      return { type: 'calibrated', id: request.id };
+  }
+};
+
+// Requests run one at a time, so a model is never disposed while a prediction still uses it
+let queue: Promise<void> = Promise.resolve();
+
+workerScope.onmessage = (event) => {
+  const request = event.data;
+  queue = queue.then(async () => {
+    try {
+      workerScope.postMessage(await handleRequest(request));
+    } catch (error) {
+      workerScope.postMessage({
+        type: 'error',
+        id: request.id,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+};
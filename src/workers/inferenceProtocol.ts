@@ -0,0 +1,23 @@
+import { DetectedHand } from '../utils/handLandmarks';
+import { PredictOptions, SignPrediction } from '../utils/signLanguageModel';
+import { RuntimeStats } from '../utils/telemetry';
+import { BackendName, BackendPreference, BackendTiming } from '../utils/backendChoice';
+import { CalibrationWeights, LabeledSample, PersonalizeOptions } from '../utils/calibration';
+
+// Messages sent from the UI thread to the inference worker
+export type InferenceRequest =
+  | { type: 'load'; id: number; alphabetId: string; modelId: string; modelUrl: string; backend: BackendPreference }
+  | { type: 'predict'; id: number; hands: DetectedHand[]; options?: PredictOptions }
+  // Train a personalization head for the loaded model; it is used from then on
+  | { type: 'personalize'; id: number; user: string; samples: LabeledSample[]; options?: PersonalizeOptions }
+  // Apply saved personalization weights, or null for the stock model
+  | { type: 'calibrate'; id: number; weights: CalibrationWeights | null };
+
+// Messages sent back by the worker; every response echoes the request id
+export type InferenceResponse =
+  // benchmark is set when the backend was chosen by benchmarking during this load
+  | { type: 'loaded'; id: number; backend: BackendName; benchmark: BackendTiming[] | null; runtime: RuntimeStats }
+  | { type: 'prediction'; id: number; result: SignPrediction; runtime: RuntimeStats }
+  | { type: 'personalized'; id: number; weights: CalibrationWeights; runtime: RuntimeStats }
+  | { type: 'calibrated'; id: number }
+  | { type: 'error'; id: number; message: string };